@@ -4,14 +4,102 @@ import SectionManager from './components/SectionManager';
 import StorageControls from './components/StorageControls';
 import AgendaTable from './components/AgendaTable';
 import PrintView from './components/PrintView';
-import { Activity, DayConfig as DayCfg, ID, Section } from './models';
-import { buildScheduleFromActivities } from './utils/schedule';
-import { loadState, saveState, loadPrefs, savePrefs } from './utils/storage';
+import { Activity, DayConfig as DayCfg, ID, Person, Section } from './models';
+import { buildScheduleFromActivities, configForDay, liveClock, planSystemActivities, summarizeRunOfShow } from './utils/schedule';
+import type { SystemChange } from './utils/schedule';
+import { formatDuration, formatMin, getTimeFormat, isValidLocale, setTimeFormat } from './utils/time';
+import type { ClockStyle, TimeFormat } from './utils/time';
+import { dateForDay, displayZoneConverter, isValidTimeZone, toIsoDate } from './utils/dates';
+import type { MergePlan } from './utils/merge';
+import { loadPrefs, savePrefs, loadLibrary, saveLibrary, loadAgenda, saveAgenda, deleteAgenda, loadHistory, saveHistory } from './utils/storage';
+import type { AgendaHistory, AgendaLibrary as Library, ColumnWidths, HistorySnapshot, PersistedState, StoredAgenda } from './utils/storage';
+import AgendaLibrary from './components/AgendaLibrary';
+import HistoryPanel from './components/HistoryPanel';
+import OwnerPanel from './components/OwnerPanel';
+import { findOwnerClashes, summarizeOwners } from './utils/owners';
+import { summarizeBudgets } from './utils/budgets';
+import { lintSchedule } from './utils/lint';
+import type { LintIssue } from './utils/lint';
+import LintPanel from './components/LintPanel';
+import { formatFlexRange, planAutoFit } from './utils/autofit';
+import type { AutoFitPlan } from './utils/autofit';
+import AutoFitDialog from './components/AutoFitDialog';
+import { parkActivities, planCuts, restoreActivity as restoreParked } from './utils/cuts';
+import type { CutPlan } from './utils/cuts';
+import CutListDialog from './components/CutListDialog';
+import { analyzeSlides, shiftSlides } from './utils/slides';
+import SlidesPanel from './components/SlidesPanel';
+import { activityAttachments, formatAttachmentList } from './utils/attachments';
+import NotesEditor from './components/NotesEditor';
+import { createPerson, normalizeOwners, renameOwner, unlistedOwners } from './utils/people';
+import PeoplePanel from './components/PeoplePanel';
 import type { Injection } from './models';
 
 // Simple id helper for demo purposes
 const uid = () => Math.random().toString(36).slice(2, 9);
 
+const DEFAULT_COLUMN_WIDTHS: ColumnWidths = { activity: 28, owner: 12, slide: 10, duration: 10, files: 12, details: 14, notes: 16, starts: 9, ends: 9 };
+
+// History label for an inline activity edit, keyed by the field that changed
+function describeActivityChange(prev: Activity, next: Activity): { label: string; field: string } | null {
+  const name = prev.title || 'activity';
+  if (prev.title !== next.title) return { field: 'title', label: `Renamed '${name}' to '${next.title}'` };
+  if (prev.owner !== next.owner) return { field: 'owner', label: `Changed owner of '${name}' to '${next.owner}'` };
+  if (prev.durationMin !== next.durationMin) return { field: 'durationMin', label: `Changed duration of '${name}' to ${next.durationMin} min` };
+  if (prev.fixedStartMin !== next.fixedStartMin) {
+    return { field: 'fixedStartMin', label: next.fixedStartMin != null ? `Pinned '${name}' at ${formatMin(next.fixedStartMin)}` : `Unpinned '${name}'` };
+  }
+  if (prev.minDurationMin !== next.minDurationMin || prev.maxDurationMin !== next.maxDurationMin) {
+    const range = formatFlexRange(next);
+    return { field: 'flex', label: range ? `Made '${name}' flexible (${range})` : `Made '${name}' fixed length` };
+  }
+  if (!!prev.completed !== !!next.completed) return { field: 'completed', label: `Marked '${name}' ${next.completed ? 'completed' : 'not completed'}` };
+  if (formatAttachmentList(activityAttachments(prev)) !== formatAttachmentList(activityAttachments(next))) return { field: 'attachments', label: `Edited files of '${name}'` };
+  const fields: [keyof Activity, string][] = [['slideNumber', 'slides'], ['details', 'details'], ['notes', 'notes']];
+  for (const [field, text] of fields) {
+    if ((prev[field] ?? '') !== (next[field] ?? '')) return { field, label: `Edited ${text} of '${name}'` };
+  }
+  return null;
+}
+
+// History label for a Day Configuration edit, keyed by the field that changed
+function describeConfigChange(prev: DayCfg, next: DayCfg): { label: string; field: string } | null {
+  const time = (v?: number) => (v != null ? formatMin(v) : 'none');
+  const mins = (v?: number) => (v != null ? `${v} min` : 'none');
+  if (prev.dayStartMin !== next.dayStartMin) return { field: 'dayStartMin', label: `Changed start time to ${time(next.dayStartMin)}` };
+  if (prev.dayEndMin !== next.dayEndMin) return { field: 'dayEndMin', label: `Changed end time to ${time(next.dayEndMin)}` };
+  if (prev.lunchTargetMin !== next.lunchTargetMin) return { field: 'lunchTargetMin', label: `Changed lunch to ${time(next.lunchTargetMin)}` };
+  if (prev.lunchDurationMin !== next.lunchDurationMin) return { field: 'lunchDurationMin', label: `Changed lunch duration to ${mins(next.lunchDurationMin)}` };
+  if (prev.breakIntervalMin !== next.breakIntervalMin) return { field: 'breakIntervalMin', label: `Changed break interval to ${mins(next.breakIntervalMin)}` };
+  if (prev.breakDurationMin !== next.breakDurationMin) return { field: 'breakDurationMin', label: `Changed break duration to ${mins(next.breakDurationMin)}` };
+  if (prev.numberOfDays !== next.numberOfDays) return { field: 'numberOfDays', label: `Changed number of days to ${next.numberOfDays ?? 1}` };
+  if (prev.startDate !== next.startDate) return { field: 'startDate', label: next.startDate ? `Changed start date to ${next.startDate}` : 'Cleared start date' };
+  if (JSON.stringify(prev) !== JSON.stringify(next)) return { field: 'other', label: 'Changed day configuration' };
+  return null;
+}
+
+// Empty agenda used by "Clear Saved" and "New agenda"
+function blankAgendaState(): PersistedState {
+  return {
+    version: 2,
+    sections: [
+      { id: uid(), name: 'Day 1: Morning', order: 1 },
+      { id: uid(), name: 'Day 1: Afternoon', order: 2 },
+    ],
+    activities: [],
+    config: {
+      dayStartMin: 8 * 60 + 30,
+      dayEndMin: 17 * 60,
+      breakIntervalMin: 90,
+      breakDurationMin: 10,
+      lunchTargetMin: 12 * 60,
+      lunchDurationMin: 45,
+    },
+    injections: [],
+    people: [],
+  };
+}
+
 const App: React.FC = () => {
   // App state: sections, activities, and day configuration
   const [sections, setSections] = React.useState<Section[]>([
@@ -45,23 +133,40 @@ const App: React.FC = () => {
     },
   ]);
 
-  // On first mount: try to load saved state; otherwise assign default section ids
+  // Agenda library index; null until loaded on mount
+  const [library, setLibrary] = React.useState<Library | null>(null);
+  const activeAgendaId = library?.activeId ?? '';
+
+  // Replace the working state with a stored agenda document
+  const applyStoredAgenda = (doc: StoredAgenda) => {
+    const saved = doc.state;
+    setSections(saved.sections);
+    setActivities(saved.activities);
+    setConfig(saved.config);
+    setInjections('injections' in saved && saved.injections ? saved.injections : []);
+    setPeople('people' in saved && saved.people ? saved.people : []);
+    setCollapsedSections(doc.prefs?.collapsedSections ?? {});
+    setColumnWidths(doc.prefs?.columnWidths ?? DEFAULT_COLUMN_WIDTHS);
+  };
+
+  // On first mount: load the active agenda from the library; otherwise start one with default section ids
   React.useEffect(() => {
-    const saved = loadState();
+    const lib = loadLibrary();
+    const saved = lib.agendas.some((a) => a.id === lib.activeId) ? loadAgenda(lib.activeId) : null;
     if (saved) {
-      setSections(saved.sections);
-      setActivities(saved.activities);
-      setConfig(saved.config);
-      if ('injections' in saved && saved.injections) setInjections(saved.injections as Injection[]);
+      applyStoredAgenda(saved);
+      setLibrary(lib);
+      setHistory(loadHistory(lib.activeId));
     } else {
       setActivities((prev) => prev.map((a, i) => ({ ...a, sectionId: sections[i % sections.length].id })));
+      const now = Date.now();
+      const id = uid();
+      setLibrary({ ...lib, activeId: id, agendas: [...lib.agendas, { id, name: 'My agenda', createdAt: now, updatedAt: now }] });
     }
     const prefs = loadPrefs();
     if (prefs) {
       if (prefs.autoApplyOnceOnLoad) setAutoApplyEnabled(true);
       if (typeof prefs.hideCompleted === 'boolean') setHideCompleted(prefs.hideCompleted);
-      if (prefs.collapsedSections) setCollapsedSections(prefs.collapsedSections);
-      if ((prefs as any).columnWidths) setColumnWidths((prefs as any).columnWidths);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -76,69 +181,211 @@ const App: React.FC = () => {
     lunchDurationMin: 60, // 60 min
   });
 
+  // People list for owner autocomplete, co-owners and renames; stored with the agenda
+  const [people, setPeople] = React.useState<Person[]>([]);
+
   // Injections legacy (kept empty now that breaks/lunch become real activities)
   const [injections, setInjections] = React.useState<Injection[]>([]);
   const [lastAppliedConfig, setLastAppliedConfig] = React.useState<DayCfg | null>(null);
   const [autoApplyEnabled, setAutoApplyEnabled] = React.useState<boolean>(false);
   const [hideCompleted, setHideCompleted] = React.useState<boolean>(false);
+  // Applied by main.tsx before the first render; changes re-render with the new format
+  const [timeFormat, setTimeFormatState] = React.useState<TimeFormat>(getTimeFormat);
+  const changeTimeFormat = (next: TimeFormat) => {
+    setTimeFormat(next);
+    setTimeFormatState(next);
+  };
+  const [localeDraft, setLocaleDraft] = React.useState(timeFormat.locale ?? '');
+  const commitLocale = () => {
+    const locale = localeDraft.trim();
+    if (locale === (timeFormat.locale ?? '')) return;
+    if (locale && !isValidLocale(locale)) {
+      alert(`"${locale}" is not a known locale. Use a tag such as en-GB or de-DE.`);
+      setLocaleDraft(timeFormat.locale ?? '');
+      return;
+    }
+    changeTimeFormat({ ...timeFormat, locale: locale || undefined });
+  };
+  // Show only one owner's activities (not persisted)
+  const [ownerFilter, setOwnerFilter] = React.useState<string | null>(null);
+  // Auto-fit preview awaiting confirmation
+  const [autoFitPlan, setAutoFitPlan] = React.useState<AutoFitPlan | null>(null);
+  // Cut list proposal awaiting confirmation
+  const [cutPlan, setCutPlan] = React.useState<CutPlan | null>(null);
+  // Row or section picked in the Checks panel; highlighted briefly (not persisted)
+  // The nonce changes on every pick, so picking the same issue again scrolls to it again
+  const [highlight, setHighlight] = React.useState<{ id: ID; nonce: number } | null>(null);
+  // Activity open in the details/notes side editor (not persisted)
+  const [notesId, setNotesId] = React.useState<ID | null>(null);
   const [collapsedSections, setCollapsedSections] = React.useState<Record<ID, boolean>>({});
-  const [columnWidths, setColumnWidths] = React.useState<{ activity: number; owner: number; slide: number; duration: number; files: number; details: number; notes: number; starts: number; ends: number }>({ activity: 28, owner: 12, slide: 10, duration: 10, files: 12, details: 14, notes: 16, starts: 9, ends: 9 });
+  const [columnWidths, setColumnWidths] = React.useState<ColumnWidths>(DEFAULT_COLUMN_WIDTHS);
+
+  // Wall clock, refreshed while today has recorded actual times (running or finished) so forecasts
+  // for the pending rows keep moving; the ticker stops once the date rolls over
+  const [now, setNow] = React.useState<number>(() => Date.now());
+  const { nowMin, today } = liveClock(now);
+  const isLive = activities.some((a) => a.actualStartAt != null && toIsoDate(new Date(a.actualStartAt)) === today);
+  React.useEffect(() => {
+    if (!isLive) return;
+    setNow(Date.now());
+    const id = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(id);
+  }, [isLive]);
 
   // Derived: computed schedule rows using explicit injections. Only day start/end auto-impact times.
   const computed = React.useMemo(
-    () => buildScheduleFromActivities({ dayStartMin: config.dayStartMin, dayEndMin: config.dayEndMin, numberOfDays: config.numberOfDays }, sections, activities),
-    [config.dayStartMin, config.dayEndMin, config.numberOfDays, sections, activities],
+    () => buildScheduleFromActivities(
+      { dayStartMin: config.dayStartMin, dayEndMin: config.dayEndMin, numberOfDays: config.numberOfDays, dayOverrides: config.dayOverrides, startDate: config.startDate, skipWeekends: config.skipWeekends, skippedDates: config.skippedDates },
+      sections,
+      activities,
+      { nowMin, today },
+    ),
+    [config.dayStartMin, config.dayEndMin, config.numberOfDays, config.dayOverrides, config.startDate, config.skipWeekends, config.skippedDates, sections, activities, nowMin, today],
+  );
+  const runStatus = React.useMemo(() => summarizeRunOfShow(computed, sections), [computed, sections]);
+  const budgets = React.useMemo(() => summarizeBudgets(sections, activities, config), [sections, activities, config]);
+  const notesActivity = notesId ? activities.find((a) => a.id === notesId) : undefined;
+  const slideReport = React.useMemo(() => analyzeSlides(activities, sections), [activities, sections]);
+  // Issue messages contain formatted times, so they are rebuilt when the time format changes
+  const lintIssues = React.useMemo(
+    () => lintSchedule(config, sections, activities, computed, slideReport),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [config, sections, activities, computed, slideReport, timeFormat],
   );
+  const dayDate = React.useCallback((dayNumber: number) => dateForDay(config, dayNumber), [config]);
+  // Converted start/end times for remote attendees, one column per display timezone
+  const convertTime = React.useMemo(() => displayZoneConverter(config), [config]);
+  const displayZones = React.useMemo(() => (config.displayTimeZones ?? []).filter(isValidTimeZone), [config.displayTimeZones]);
+  const dayEndMinFor = React.useCallback((dayNumber: number) => configForDay(config, dayNumber).dayEndMin, [config]);
 
   // When ?print=1 is present in the URL, render the print-friendly read-only view
-  const printMode = React.useMemo(() => new URL(window.location.href).searchParams.get('print') === '1', []);
-  if (printMode) {
-    return <PrintView sections={sections} computed={computed} />;
+  // (&owner=NAME narrows it to that owner's run sheet)
+  const printParams = React.useMemo(() => new URL(window.location.href).searchParams, []);
+  const ownerClashes = React.useMemo(() => findOwnerClashes(computed, sections, people), [computed, sections, people]);
+  const ownerSummaries = React.useMemo(() => summarizeOwners(computed, sections, people), [computed, sections, people]);
+  if (printParams.get('print') === '1') {
+    return <PrintView sections={sections} computed={computed} dayDate={dayDate} owner={printParams.get('owner')} people={people} displayZones={displayZones} convertTime={convertTime} budgets={budgets} />;
   }
 
-  // Persist state when core data changes
+  // Checks panel: make the issue's row visible (expand its section, drop filters hiding it), then highlight it
+  const focusIssue = (issue: LintIssue) => {
+    const activity = issue.activityId ? activities.find((a) => a.id === issue.activityId) : undefined;
+    const sectionId = activity?.sectionId ?? issue.sectionId;
+    if (sectionId && collapsedSections[sectionId]) setCollapsedSections((prev) => ({ ...prev, [sectionId]: false }));
+    if (activity?.completed && hideCompleted) setHideCompleted(false);
+    if (activity && ownerFilter) setOwnerFilter(null);
+    const id = issue.activityId ?? issue.sectionId;
+    setHighlight(id ? { id, nonce: (highlight?.nonce ?? 0) + 1 } : null);
+  };
+  React.useEffect(() => {
+    if (!highlight) return;
+    const id = setTimeout(() => setHighlight(null), 2500);
+    return () => clearTimeout(id);
+  }, [highlight]);
+
+  // Drop the owner filter once nobody by that name is left (renamed or removed)
   React.useEffect(() => {
-    saveState({ version: 2, sections, activities, config, injections });
-  }, [sections, activities, config, injections]);
+    if (ownerFilter && !ownerSummaries.some((o) => o.owner.toLowerCase() === ownerFilter.toLowerCase())) setOwnerFilter(null);
+  }, [ownerFilter, ownerSummaries]);
 
+  // Persist the active agenda when core data changes; bump its last-modified time only on real changes
   React.useEffect(() => {
-    savePrefs({ version: 2, autoApplyOnceOnLoad: autoApplyEnabled, hideCompleted, collapsedSections, columnWidths });
-  }, [autoApplyEnabled, hideCompleted, collapsedSections, columnWidths]);
-
-  // Simple Undo stack and keyboard handler
-  type Snapshot = { sections: Section[]; activities: Activity[]; config: DayCfg; collapsedSections: Record<ID, boolean>; hideCompleted: boolean; columnWidths: typeof columnWidths };
-  const [history, setHistory] = React.useState<Snapshot[]>([]);
-  const pushHistory = React.useCallback(() => {
-    setHistory((prev) => [...prev.slice(-49), { sections: JSON.parse(JSON.stringify(sections)), activities: JSON.parse(JSON.stringify(activities)), config: JSON.parse(JSON.stringify(config)), collapsedSections: JSON.parse(JSON.stringify(collapsedSections)), hideCompleted, columnWidths: JSON.parse(JSON.stringify(columnWidths)) }]);
-  }, [sections, activities, config, collapsedSections, hideCompleted, columnWidths]);
-  const undo = React.useCallback(() => {
-    setHistory((prev) => {
-      if (!prev.length) return prev;
-      const last = prev[prev.length - 1];
-      setSections(last.sections);
-      setActivities(last.activities);
-      setConfig(last.config);
-      setCollapsedSections(last.collapsedSections);
-      setHideCompleted(last.hideCompleted);
-      setColumnWidths(last.columnWidths);
-      return prev.slice(0, -1);
+    if (!activeAgendaId) return;
+    const changed = saveAgenda(activeAgendaId, {
+      state: { version: 2, sections, activities, config, injections, people },
+      prefs: { collapsedSections, columnWidths },
     });
-  }, []);
+    if (changed) {
+      const now = Date.now();
+      setLibrary((prev) => prev && { ...prev, agendas: prev.agendas.map((a) => (a.id === activeAgendaId ? { ...a, updatedAt: now } : a)) });
+    }
+  }, [activeAgendaId, sections, activities, config, injections, people, collapsedSections, columnWidths]);
+
+  React.useEffect(() => {
+    if (library) saveLibrary(library);
+  }, [library]);
+
+  React.useEffect(() => {
+    savePrefs({ version: 2, autoApplyOnceOnLoad: autoApplyEnabled, hideCompleted, timeFormat });
+  }, [autoApplyEnabled, hideCompleted, timeFormat]);
+
+  // Undo/redo history with labeled entries, persisted per agenda, and keyboard handler
+  const [history, setHistory] = React.useState<AgendaHistory>({ past: [], future: [] });
+  // Consecutive edits with the same merge key (e.g. typing into one field) collapse into one entry
+  const mergeKeyRef = React.useRef<string | null>(null);
+  const takeSnapshot = (): HistorySnapshot =>
+    JSON.parse(JSON.stringify({ sections, activities, config, people, collapsedSections, hideCompleted, columnWidths }));
+  const pushHistory = (label: string, mergeKey?: string) => {
+    if (mergeKey && mergeKeyRef.current === mergeKey) {
+      setHistory((prev) => prev.past.length ? { ...prev, past: [...prev.past.slice(0, -1), { ...prev.past[prev.past.length - 1], label, at: Date.now() }] } : prev);
+      return;
+    }
+    mergeKeyRef.current = mergeKey ?? null;
+    const entry = { label, at: Date.now(), snapshot: takeSnapshot() };
+    setHistory((prev) => ({ past: [...prev.past.slice(-49), entry], future: [] }));
+  };
+  const restoreSnapshot = (snap: HistorySnapshot) => {
+    setSections(snap.sections);
+    setActivities(snap.activities);
+    setConfig(snap.config);
+    setPeople(snap.people ?? []);
+    setCollapsedSections(snap.collapsedSections);
+    setHideCompleted(snap.hideCompleted);
+    setColumnWidths(snap.columnWidths);
+  };
+  // Move to the state after `position` changes (0 = before the oldest retained change)
+  const jumpToHistory = (position: number) => {
+    const past = history.past.slice();
+    const future = history.future.slice();
+    if (position === past.length || position < 0 || position > past.length + future.length) return;
+    let current = takeSnapshot();
+    while (past.length > position) {
+      const entry = past.pop()!;
+      future.push({ ...entry, snapshot: current });
+      current = entry.snapshot;
+    }
+    while (past.length < position) {
+      const entry = future.pop()!;
+      past.push({ ...entry, snapshot: current });
+      current = entry.snapshot;
+    }
+    mergeKeyRef.current = null;
+    restoreSnapshot(current);
+    setHistory({ past, future });
+  };
+  const undo = () => jumpToHistory(history.past.length - 1);
+  const redo = () => jumpToHistory(history.past.length + 1);
+
+  React.useEffect(() => {
+    if (activeAgendaId) saveHistory(activeAgendaId, history);
+  }, [activeAgendaId, history]);
+  // A different agenda was opened: its first edit must not merge into the previous agenda's last entry
+  React.useEffect(() => {
+    mergeKeyRef.current = null;
+  }, [activeAgendaId]);
+
   React.useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
-      const isUndo = (e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z';
-      if (isUndo) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      const isRedo = (key === 'z' && e.shiftKey) || key === 'y';
+      const isUndo = key === 'z' && !e.shiftKey;
+      if (isUndo || isRedo) {
         e.preventDefault();
-        undo();
+        if (isRedo) redo();
+        else undo();
       }
     };
     window.addEventListener('keydown', onKey);
     return () => window.removeEventListener('keydown', onKey);
-  }, [undo]);
+  });
 
   // Section operations
+  const sectionName = (id: ID) => sections.find((s) => s.id === id)?.name ?? 'section';
+  const activityTitle = (id: ID) => activities.find((a) => a.id === id)?.title ?? 'activity';
+
   const addSection = (name: string) => {
-    pushHistory();
+    pushHistory(`Added section '${name}'`);
     setSections((prev) => {
       const order = prev.length ? Math.max(...prev.map((s) => s.order)) + 1 : 1;
       return [...prev, { id: uid(), name, order }];
@@ -146,18 +393,18 @@ const App: React.FC = () => {
   };
 
   const renameSection = (id: ID, name: string) => {
-    pushHistory();
+    pushHistory(`Renamed section to '${name}'`, `section:${id}:name`);
     setSections((prev) => prev.map((s) => (s.id === id ? { ...s, name } : s)));
   };
 
   const removeSection = (id: ID) => {
-    pushHistory();
+    pushHistory(`Deleted section '${sectionName(id)}'`);
     setSections((prev) => prev.filter((s) => s.id !== id));
     setActivities((prev) => prev.filter((a) => a.sectionId !== id));
   };
 
   const moveSectionUp = (id: ID) => {
-    pushHistory();
+    pushHistory(`Moved section '${sectionName(id)}' up`);
     setSections((prev) => {
       const sorted = [...prev].sort((a, b) => a.order - b.order);
       const idx = sorted.findIndex((s) => s.id === id);
@@ -172,7 +419,7 @@ const App: React.FC = () => {
   };
 
   const moveSectionDown = (id: ID) => {
-    pushHistory();
+    pushHistory(`Moved section '${sectionName(id)}' down`);
     setSections((prev) => {
       const sorted = [...prev].sort((a, b) => a.order - b.order);
       const idx = sorted.findIndex((s) => s.id === id);
@@ -186,14 +433,29 @@ const App: React.FC = () => {
     });
   };
 
+  const setSectionTrack = (id: ID, track: string) => {
+    pushHistory(track ? `Moved section '${sectionName(id)}' to track '${track}'` : `Removed section '${sectionName(id)}' from its track`, `section:${id}:track`);
+    setSections((prev) => prev.map((s) => (s.id === id ? { ...s, track: track || undefined } : s)));
+  };
+  const setSectionBudget = (id: ID, budgetMin: number | undefined) => {
+    pushHistory(budgetMin != null ? `Set budget of '${sectionName(id)}' to ${formatDuration(budgetMin)}` : `Cleared budget of '${sectionName(id)}'`);
+    setSections((prev) => prev.map((s) => (s.id === id ? { ...s, budgetMin } : s)));
+  };
+  const setDayBudget = (dayNumber: number, budgetMin: number | undefined) => {
+    const dayBudgets = { ...(config.dayBudgets ?? {}) };
+    if (budgetMin != null) dayBudgets[dayNumber] = budgetMin;
+    else delete dayBudgets[dayNumber];
+    pushHistory(budgetMin != null ? `Set Day ${dayNumber} budget to ${formatDuration(budgetMin)}` : `Cleared Day ${dayNumber} budget`);
+    setConfig({ ...config, dayBudgets });
+  };
   const setSectionDay = (id: ID, dayNumber: number) => {
-    pushHistory();
+    pushHistory(`Moved section '${sectionName(id)}' to Day ${dayNumber}`);
     setSections((prev) => prev.map((s) => (s.id === id ? { ...s, dayNumber } : s)));
   };
 
   // Activity operations
   const addActivity = (sectionId: ID) => {
-    pushHistory();
+    pushHistory(`Added activity to '${sectionName(sectionId)}'`);
     setActivities((prev) => [
       ...prev,
       {
@@ -210,21 +472,77 @@ const App: React.FC = () => {
     ]);
   };
 
+  // Inline edits record one history entry per field being edited; leaving the field ends the entry
   const updateActivity = (next: Activity) => {
+    const prev = activities.find((a) => a.id === next.id);
+    if (prev) {
+      const change = describeActivityChange(prev, next);
+      if (change) pushHistory(change.label, `activity:${next.id}:${change.field}`);
+    }
     setActivities((prev) => prev.map((a) => (a.id === next.id ? next : a)));
   };
   const commitActivityChange = () => {
-    pushHistory();
+    mergeKeyRef.current = null;
+  };
+
+  // Day configuration edits, recorded like inline activity edits
+  const changeConfig = (next: DayCfg) => {
+    const change = describeConfigChange(config, next);
+    if (change) pushHistory(change.label, `config:${change.field}`);
+    setConfig(next);
   };
 
   const removeActivity = (id: ID) => {
-    pushHistory();
+    pushHistory(`Deleted '${activityTitle(id)}'`);
     setActivities((prev) => prev.filter((a) => a.id !== id));
   };
+  // Run of show: record actual start/finish times. Starting an activity finishes whichever one is running.
+  const startActivity = (id: ID) => {
+    pushHistory(`Started '${activityTitle(id)}'`);
+    const now = Date.now();
+    setNow(now);
+    setActivities((prev) =>
+      prev.map((a) => {
+        if (a.id === id) return { ...a, actualStartAt: now, actualEndAt: undefined, completed: false };
+        if (a.actualStartAt != null && a.actualEndAt == null) return { ...a, actualEndAt: now, completed: true };
+        return a;
+      }),
+    );
+  };
+
+  const finishActivity = (id: ID) => {
+    pushHistory(`Finished '${activityTitle(id)}'`);
+    const now = Date.now();
+    setNow(now);
+    setActivities((prev) => prev.map((a) => (a.id === id ? { ...a, actualEndAt: now, completed: true } : a)));
+  };
+
+  const resetActivityTimes = (id: ID) => {
+    pushHistory(`Cleared actual times of '${activityTitle(id)}'`);
+    setActivities((prev) => prev.map((a) => (a.id === id ? { ...a, actualStartAt: undefined, actualEndAt: undefined, completed: false } : a)));
+  };
+
   // Update considers existing breaks/lunch and proposes minimal insertions/updates with confirmation
   const applyConfig = () => {
-    // Respect user's current items. Do not auto-insert or modify.
-    // Only set lastAppliedConfig and optionally note if breaks/lunch are missing.
+    const plan = planSystemActivities(config, sections, activities);
+    if (plan.changes.length) {
+      // Preview start times from the proposed schedule so the user can judge the placement
+      const proposed = buildScheduleFromActivities(config, sections, plan.activities);
+      const startByKey = new Map<string, number>();
+      for (const r of proposed) {
+        if (r.type === 'activity' && r.activity.systemKey) startByKey.set(r.activity.systemKey, r.startMin);
+      }
+      const describe = (c: SystemChange) => {
+        const verb = { insert: 'Insert', move: 'Move', update: 'Update', remove: 'Remove' }[c.kind];
+        const at = c.kind !== 'remove' && startByKey.has(c.systemKey) ? ` at ${formatMin(startByKey.get(c.systemKey)!)}` : '';
+        const before = c.kind !== 'remove' && c.beforeTitle ? ` before "${c.beforeTitle}"` : '';
+        return `• ${verb} ${c.label} (${c.durationMin} min) on Day ${c.dayNumber}${at}${before}`;
+      };
+      const ok = window.confirm(`Apply these break/lunch changes?\n\n${plan.changes.map(describe).join('\n')}`);
+      if (!ok) return;
+      pushHistory(`Updated breaks/lunch (${plan.changes.length} change${plan.changes.length === 1 ? '' : 's'})`);
+      setActivities(plan.activities);
+    }
     setLastAppliedConfig({ ...config });
   };
 
@@ -237,7 +555,115 @@ const App: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [autoApplyEnabled]);
 
-  const clearInjections = () => setInjections([]);
+  // Remove all materialized Break/Lunch activities (and any legacy injections)
+  const clearInjections = () => {
+    pushHistory('Cleared breaks/lunch');
+    setActivities((prev) => prev.filter((a) => !a.isSystem));
+    setInjections([]);
+    setLastAppliedConfig(null);
+  };
+
+  // Auto-fit: preview the duration changes that make every day end on time, then apply them as one change
+  const openAutoFit = () => {
+    const plan = planAutoFit(config, sections, activities);
+    if (!plan.days.length) {
+      alert('Every day already ends on time.');
+      return;
+    }
+    setAutoFitPlan(plan);
+  };
+  const applyAutoFit = () => {
+    if (!autoFitPlan) return;
+    const n = autoFitPlan.changes.length;
+    pushHistory(`Auto-fit (${n} duration${n === 1 ? '' : 's'} changed)`);
+    setActivities(autoFitPlan.activities);
+    setAutoFitPlan(null);
+  };
+
+  // Cut list: propose optional activities to park or delete from days that run long
+  const openCutList = () => {
+    const plan = planCuts(config, sections, activities);
+    if (!plan.days.length) {
+      alert('No day runs past its end time.');
+      return;
+    }
+    setCutPlan(plan);
+  };
+  const parkCuts = (ids: ID[]) => {
+    pushHistory(`Parked ${ids.length} optional activit${ids.length === 1 ? 'y' : 'ies'}`);
+    const next = parkActivities(sections, activities, ids, uid);
+    setSections(next.sections);
+    setActivities(next.activities);
+    setCutPlan(null);
+  };
+  const deleteCuts = (ids: ID[]) => {
+    pushHistory(`Cut ${ids.length} optional activit${ids.length === 1 ? 'y' : 'ies'}`);
+    setActivities((prev) => prev.filter((a) => !ids.includes(a.id)));
+    setCutPlan(null);
+  };
+  const restoreActivity = (id: ID) => {
+    pushHistory(`Restored '${activityTitle(id)}' from the parking lot`);
+    setActivities((prev) => restoreParked(sections, prev, id));
+  };
+
+  // Renumber slide ranges after slides were inserted (count > 0) or removed (count < 0) after a slide
+  const shiftSlideRanges = (after: number, count: number) => {
+    const changed = shiftSlides(activities, after, count);
+    if (!changed.length) {
+      alert(`No slide ranges after slide ${after} to renumber.`);
+      return;
+    }
+    pushHistory(`${count > 0 ? 'Inserted' : 'Removed'} ${Math.abs(count)} slide${Math.abs(count) === 1 ? '' : 's'} after slide ${after}`);
+    const byId = new Map(changed.map((a) => [a.id, a] as const));
+    setActivities((prev) => prev.map((a) => byId.get(a.id) ?? a));
+  };
+  const setActivityDuration = (id: ID, durationMin: number) => {
+    const activity = activities.find((a) => a.id === id);
+    if (activity) {
+      updateActivity({ ...activity, durationMin });
+      commitActivityChange();
+    }
+  };
+
+  // Apply a reviewed merge import, adding days when imported sections land beyond the last one
+  const mergeImport = (plan: MergePlan) => {
+    const added = plan.items.filter((i) => i.outcome === 'added').length;
+    const updated = plan.items.filter((i) => i.outcome === 'updated').length;
+    pushHistory(`Merged import (${added} added, ${updated} updated)`);
+    setSections(plan.sections);
+    setActivities(plan.activities);
+    setPeople(plan.people);
+    if (plan.dayCount > (config.numberOfDays ?? 1)) setConfig({ ...config, numberOfDays: plan.dayCount });
+  };
+
+  // People list edits. Renames rewrite the name in every activity; adding people also
+  // respells matching owners ("speaker a" → "Speaker A")
+  const unlisted = React.useMemo(() => unlistedOwners(activities, people), [activities, people]);
+  const addPeople = (names: string[]) => {
+    const next = people.slice();
+    for (const name of names) next.push(createPerson(next, name));
+    pushHistory(names.length === 1 ? `Added '${names[0]}' to people` : `Added ${names.length} people`);
+    setPeople(next);
+    setActivities((prev) => normalizeOwners(prev, next));
+  };
+  const updatePerson = (next: Person) => {
+    pushHistory(`Edited '${next.name}'`, `person:${next.id}`);
+    setPeople((prev) => prev.map((p) => (p.id === next.id ? next : p)));
+  };
+  const renamePerson = (id: ID, name: string) => {
+    const person = people.find((p) => p.id === id);
+    if (!person) return;
+    pushHistory(`Renamed '${person.name}' to '${name}'`);
+    setPeople((prev) => prev.map((p) => (p.id === id ? { ...p, name } : p)));
+    setActivities((prev) => renameOwner(prev, person.name, name, people));
+    if (ownerFilter && ownerFilter === person.name) setOwnerFilter(name);
+  };
+  const removePerson = (id: ID) => {
+    const person = people.find((p) => p.id === id);
+    if (!person) return;
+    pushHistory(`Removed '${person.name}' from people`);
+    setPeople((prev) => prev.filter((p) => p.id !== id));
+  };
 
   const configIsDirty = React.useMemo(() => {
     if (!lastAppliedConfig) return true; // nothing applied yet
@@ -249,13 +675,74 @@ const App: React.FC = () => {
       a.breakIntervalMin !== b.breakIntervalMin ||
       a.breakDurationMin !== b.breakDurationMin ||
       a.lunchTargetMin !== b.lunchTargetMin ||
-      a.lunchDurationMin !== b.lunchDurationMin
+      a.lunchDurationMin !== b.lunchDurationMin ||
+      JSON.stringify(a.dayOverrides ?? {}) !== JSON.stringify(b.dayOverrides ?? {})
     );
   }, [lastAppliedConfig, config]);
 
+  // Agenda library operations. Each agenda keeps its own history, so switching loads that agenda's.
+  const switchAgenda = (id: ID) => {
+    if (!library || id === activeAgendaId) return;
+    applyStoredAgenda(loadAgenda(id) ?? { state: blankAgendaState() });
+    setLibrary({ ...library, activeId: id });
+    setHistory(loadHistory(id));
+    setLastAppliedConfig(null);
+  };
+
+  const addAgenda = (name: string, doc: StoredAgenda) => {
+    if (!library) return;
+    const id = uid();
+    const now = Date.now();
+    saveAgenda(id, doc);
+    applyStoredAgenda(doc);
+    setLibrary({ ...library, activeId: id, agendas: [...library.agendas, { id, name, createdAt: now, updatedAt: now }] });
+    setHistory({ past: [], future: [] });
+    setLastAppliedConfig(null);
+  };
+
+  const createAgenda = (name: string) => addAgenda(name, { state: blankAgendaState() });
+
+  const duplicateAgenda = (id: ID) => {
+    const source = library?.agendas.find((a) => a.id === id);
+    if (!source) return;
+    const doc: StoredAgenda | null =
+      id === activeAgendaId
+        ? { state: { version: 2, sections, activities, config, injections, people }, prefs: { collapsedSections, columnWidths } }
+        : loadAgenda(id);
+    if (doc) addAgenda(`${source.name} (copy)`, JSON.parse(JSON.stringify(doc)));
+  };
+
+  const renameAgenda = (id: ID, name: string) => {
+    setLibrary((prev) => prev && { ...prev, agendas: prev.agendas.map((a) => (a.id === id ? { ...a, name } : a)) });
+  };
+
+  const removeAgenda = (id: ID) => {
+    if (!library) return;
+    deleteAgenda(id);
+    const remaining = library.agendas.filter((a) => a.id !== id);
+    if (id !== activeAgendaId) {
+      setLibrary({ ...library, agendas: remaining });
+      return;
+    }
+    if (remaining.length) {
+      applyStoredAgenda(loadAgenda(remaining[0].id) ?? { state: blankAgendaState() });
+      setLibrary({ ...library, activeId: remaining[0].id, agendas: remaining });
+      setHistory(loadHistory(remaining[0].id));
+    } else {
+      const newId = uid();
+      const now = Date.now();
+      applyStoredAgenda({ state: blankAgendaState() });
+      setLibrary({ ...library, activeId: newId, agendas: [{ id: newId, name: 'My agenda', createdAt: now, updatedAt: now }] });
+      setHistory({ past: [], future: [] });
+    }
+    setLastAppliedConfig(null);
+  };
+
   // Drag-and-drop reorder handler
   const reorder = (id: ID, overId: ID | null, overSectionId: ID | null) => {
-    pushHistory();
+    const overActivity = overId ? activities.find((a) => a.id === overId) : undefined;
+    const targetSectionId = overActivity?.sectionId ?? overSectionId ?? activities.find((a) => a.id === id)?.sectionId;
+    pushHistory(`Moved '${activityTitle(id)}' to ${targetSectionId ? sectionName(targetSectionId) : 'section'}`);
     setActivities((prev) => {
       const fromIdx = prev.findIndex((a) => a.id === id);
       if (fromIdx < 0) return prev;
@@ -283,8 +770,13 @@ const App: React.FC = () => {
       const next = prev.slice();
       // Remove from old position
       next.splice(fromIdx, 1);
-      // Insert at new position with updated sectionId
-      const updated = { ...moving, sectionId: targetSection } as Activity;
+      // Insert at new position with updated sectionId. Dragging into the parking lot remembers
+      // where the activity came from for Restore; dragging it out again forgets it.
+      const isLot = (sectionId: ID) => !!sections.find((s) => s.id === sectionId)?.parkingLot;
+      const { parkedFromSectionId: _from, ...rest } = moving;
+      const updated: Activity = isLot(targetSection)
+        ? { ...moving, sectionId: targetSection, parkedFromSectionId: isLot(moving.sectionId) ? moving.parkedFromSectionId : moving.sectionId }
+        : { ...rest, sectionId: targetSection };
       next.splice(targetIdx > fromIdx ? targetIdx - 1 : targetIdx, 0, updated);
       return next;
     });
@@ -299,14 +791,27 @@ const App: React.FC = () => {
 
       <div className="layout">
         <div className="sidebar">
+          {library && (
+            <AgendaLibrary
+              agendas={library.agendas}
+              activeId={activeAgendaId}
+              onSwitch={switchAgenda}
+              onCreate={createAgenda}
+              onDuplicate={duplicateAgenda}
+              onRename={renameAgenda}
+              onRemove={removeAgenda}
+            />
+          )}
           <DayConfig
             value={config}
-            onChange={setConfig}
+            onChange={changeConfig}
             onApply={applyConfig}
             isDirty={configIsDirty}
             autoApplyEnabled={autoApplyEnabled}
             onToggleAutoApply={setAutoApplyEnabled}
             onClearInjections={clearInjections}
+            onAutoFit={openAutoFit}
+            onCutList={openCutList}
           />
           <SectionManager
             sections={sections}
@@ -316,6 +821,10 @@ const App: React.FC = () => {
             onMoveUp={moveSectionUp}
             onMoveDown={moveSectionDown}
             onSetDay={setSectionDay}
+            onSetTrack={setSectionTrack}
+            onSetBudget={setSectionBudget}
+            dayBudgets={config.dayBudgets}
+            onSetDayBudget={setDayBudget}
           />
           <div className="panel">
             <div className="row">
@@ -324,33 +833,69 @@ const App: React.FC = () => {
                 Hide Completed
               </label>
             </div>
+            <div className="grid-2">
+              <label>
+                Time Format
+                <select value={timeFormat.clock} onChange={(e) => changeTimeFormat({ ...timeFormat, clock: e.target.value as ClockStyle })}>
+                  <option value="12h">12-hour (8:30 AM)</option>
+                  <option value="24h">24-hour (08:30)</option>
+                  <option value="locale">Locale default</option>
+                </select>
+              </label>
+              <label>
+                Locale
+                <input
+                  value={localeDraft}
+                  placeholder={navigator.language}
+                  onChange={(e) => setLocaleDraft(e.target.value)}
+                  onBlur={commitLocale}
+                  onKeyDown={(e) => e.key === 'Enter' && commitLocale()}
+                />
+              </label>
+            </div>
           </div>
+          <LintPanel issues={lintIssues} onSelect={focusIssue} />
+          <SlidesPanel report={slideReport} onSetDuration={setActivityDuration} onShift={shiftSlideRanges} />
+          <PeoplePanel
+            people={people}
+            unlisted={unlisted}
+            onAdd={(name) => addPeople([name])}
+            onAddUnlisted={() => addPeople(unlisted)}
+            onChange={updatePerson}
+            onRename={renamePerson}
+            onRemove={removePerson}
+          />
+          <OwnerPanel
+            summaries={ownerSummaries}
+            ownerFilter={ownerFilter}
+            onFilterChange={setOwnerFilter}
+            multiDay={(config.numberOfDays ?? 1) > 1}
+          />
+          <HistoryPanel history={history} onUndo={undo} onRedo={redo} onJump={jumpToHistory} />
           <StorageControls
             sections={sections}
             activities={activities}
             config={config}
+            people={people}
+            computed={computed}
             injections={injections}
-            onImport={({ sections: s, activities: a, config: c }) => {
+            onConfigChange={changeConfig}
+            onMerge={mergeImport}
+            onImport={({ sections: s, activities: a, config: c, people: p }) => {
               setSections(s);
               setActivities(a);
               setConfig(c);
+              setPeople(p ?? []);
               // Imported files may include injections (v2). If not, clear to require Update.
               // @ts-expect-error tolerate v1 imports without injections
               setInjections(arguments[0]?.injections ?? []);
             }}
             onClear={() => {
-              const morning: Section = { id: uid(), name: 'Day 1: Morning', order: 1 };
-              const afternoon: Section = { id: uid(), name: 'Day 1: Afternoon', order: 2 };
-              setSections([morning, afternoon]);
-              setActivities([]);
-              setConfig({
-                dayStartMin: 8 * 60 + 30,
-                dayEndMin: 17 * 60,
-                breakIntervalMin: 90,
-                breakDurationMin: 10,
-                lunchTargetMin: 12 * 60,
-                lunchDurationMin: 45,
-              });
+              const blank = blankAgendaState();
+              setSections(blank.sections);
+              setActivities(blank.activities);
+              setConfig(blank.config);
+              setPeople([]);
               setInjections([]);
               setLastAppliedConfig(null);
               setAutoApplyEnabled(false);
@@ -368,14 +913,35 @@ const App: React.FC = () => {
             onRemoveActivity={removeActivity}
             onReorder={reorder}
             hideCompleted={hideCompleted}
+            ownerFilter={ownerFilter}
+            people={people}
+            ownerClashes={ownerClashes}
             collapsed={collapsedSections}
             onToggleCollapse={(id) => setCollapsedSections((prev) => ({ ...prev, [id]: !prev[id] }))}
-            dayEndMin={config.dayEndMin}
+            dayEndMinFor={dayEndMinFor}
+            dayDate={dayDate}
+            displayZones={displayZones}
+            convertTime={convertTime}
+            budgets={budgets}
+            highlightId={highlight?.id ?? null}
+            highlightNonce={highlight?.nonce}
+            notesOpenId={notesId}
+            onOpenNotes={setNotesId}
+            onRestoreActivity={restoreActivity}
+            runStatus={runStatus}
+            onStartActivity={startActivity}
+            onFinishActivity={finishActivity}
+            onResetActivityTimes={resetActivityTimes}
             columnWidths={columnWidths}
             onColumnWidthsChange={setColumnWidths}
           />
         </main>
       </div>
+      {autoFitPlan && <AutoFitDialog plan={autoFitPlan} onApply={applyAutoFit} onCancel={() => setAutoFitPlan(null)} />}
+      {notesActivity && (
+        <NotesEditor activity={notesActivity} onChange={updateActivity} onCommit={commitActivityChange} onClose={() => setNotesId(null)} />
+      )}
+      {cutPlan && <CutListDialog plan={cutPlan} onPark={parkCuts} onDelete={deleteCuts} onCancel={() => setCutPlan(null)} />}
     </div>
   );
 };
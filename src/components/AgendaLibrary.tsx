@@ -0,0 +1,62 @@
+import React from 'react';
+import { ID } from '../models';
+import type { AgendaMeta } from '@utils/storage';
+
+interface Props {
+  agendas: AgendaMeta[];
+  activeId: ID;
+  onSwitch: (id: ID) => void;
+  onCreate: (name: string) => void;
+  onDuplicate: (id: ID) => void;
+  onRename: (id: ID, name: string) => void;
+  onRemove: (id: ID) => void;
+}
+
+// Agenda library: switch between named agendas stored in this browser,
+// and create, duplicate, rename or delete them.
+const AgendaLibrary: React.FC<Props> = ({ agendas, activeId, onSwitch, onCreate, onDuplicate, onRename, onRemove }) => {
+  const active = agendas.find((a) => a.id === activeId);
+  const sorted = agendas.slice().sort((a, b) => a.name.localeCompare(b.name));
+
+  const onNew = () => {
+    const name = window.prompt('Name for the new agenda:', 'Untitled agenda');
+    if (name && name.trim()) onCreate(name.trim());
+  };
+
+  const onRenameActive = () => {
+    if (!active) return;
+    const name = window.prompt('Rename agenda:', active.name);
+    if (name && name.trim()) onRename(active.id, name.trim());
+  };
+
+  const onDeleteActive = () => {
+    if (!active) return;
+    if (window.confirm(`Delete "${active.name}"? This cannot be undone.`)) onRemove(active.id);
+  };
+
+  return (
+    <fieldset className="panel">
+      <legend>Agendas</legend>
+      <div className="row">
+        <select value={activeId} onChange={(e) => onSwitch(e.target.value)} style={{ flex: 1 }} title="Switch agenda">
+          {sorted.map((a) => (
+            <option key={a.id} value={a.id}>{a.name} · {new Date(a.updatedAt).toLocaleDateString()}</option>
+          ))}
+        </select>
+      </div>
+      {active && (
+        <div style={{ color: 'var(--muted)', fontSize: 12, marginTop: 4 }}>
+          Last modified {new Date(active.updatedAt).toLocaleString()}
+        </div>
+      )}
+      <div className="row" style={{ marginTop: 8, flexWrap: 'wrap' }}>
+        <button onClick={onNew}>New</button>
+        <button onClick={() => active && onDuplicate(active.id)}>Duplicate</button>
+        <button onClick={onRenameActive}>Rename</button>
+        <button className="danger" onClick={onDeleteActive}>Delete</button>
+      </div>
+    </fieldset>
+  );
+};
+
+export default AgendaLibrary;
@@ -1,6 +1,20 @@
 import React from 'react';
-import { Activity, ComputedRow, ID, Section } from '../models';
-import { formatMin } from '@utils/time';
+import { Activity, ComputedRow, ID, Person, Priority, Section } from '../models';
+import { formatDrift, formatMin, formatMin24, formatMinWithOffset, parseDuration, parseTimeToMin } from '@utils/time';
+import { groupSectionsByTrack } from '@utils/schedule';
+import type { RunOfShowStatus } from '@utils/schedule';
+import { formatDate, timeZoneLabel } from '@utils/dates';
+import type { ZonedTime } from '@utils/dates';
+import { hasOwner } from '@utils/owners';
+import type { OwnerClash } from '@utils/owners';
+import { budgetClass, describeBudget } from '@utils/budgets';
+import type { BudgetSummary } from '@utils/budgets';
+import { formatFlexRange, parseFlexRange } from '@utils/autofit';
+import { countSlides, parseSlideRanges } from '@utils/slides';
+import { activityAttachments, withAttachments } from '@utils/attachments';
+import { markdownPreview } from '@utils/markdown';
+import OwnerPicker, { PEOPLE_DATALIST_ID } from './OwnerPicker';
+import AttachmentList from './AttachmentList';
 
 import {
   DndContext,
@@ -27,24 +41,112 @@ interface TableProps {
   onRemoveActivity: (id: ID) => void;
   onReorder: (id: ID, overId: ID | null, overSectionId: ID | null) => void;
   hideCompleted?: boolean;
+  ownerFilter?: string | null; // show only this owner's activities
+  people?: Person[]; // registry for the owner picker
+  ownerClashes?: OwnerClash[]; // owners double-booked across parallel tracks
+  displayZones?: string[]; // extra timezones, each shown as a Start–End column
+  convertTime?: ((dayNumber: number, min: number) => ZonedTime[]) | null; // agenda time → displayZones
+  budgets?: BudgetSummary; // planned vs. budget per section and day
+  highlightId?: ID | null; // activity or section to scroll to and highlight (from the Checks panel)
+  highlightNonce?: number; // changes when the same target is picked again
+  onRestoreActivity?: (id: ID) => void; // move a parked activity back to its section
+  notesOpenId?: ID | null; // activity whose details/notes are open in the side editor
+  onOpenNotes?: (id: ID) => void;
   collapsed?: Record<ID, boolean>;
   onToggleCollapse?: (sectionId: ID) => void;
-  dayEndMin?: number;
+  dayEndMinFor?: (dayNumber: number) => number; // end of day (with per-day overrides) for overtime highlighting
+  dayDate?: (dayNumber: number) => string | null; // calendar date (YYYY-MM-DD) for a day, if known
+  runStatus?: RunOfShowStatus | null;
+  onStartActivity?: (id: ID) => void;
+  onFinishActivity?: (id: ID) => void;
+  onResetActivityTimes?: (id: ID) => void;
   columnWidths?: { activity: number; owner: number; slide: number; duration: number; files: number; details: number; notes: number; starts: number; ends: number };
   onColumnWidthsChange?: (next: { activity: number; owner: number; slide: number; duration: number; files: number; details: number; notes: number; starts: number; ends: number }) => void;
 }
 
+// Materialized Break/Lunch activities get the same tint as computed break/lunch rows
+function systemClass(activity: Activity): string {
+  if (!activity.isSystem) return '';
+  return activity.systemKey?.startsWith('lunch:') ? 'system lunch' : 'system break';
+}
+
+// Duration cell accepting "90", "90m", "1h30" or "1:30"; applied on blur/Enter, invalid input reverts
+const DurationInput: React.FC<{ value: number; onChange: (min: number) => void; onCommit?: () => void }> = ({ value, onChange, onCommit }) => {
+  const [draft, setDraft] = React.useState(String(value));
+  React.useEffect(() => setDraft(String(value)), [value]);
+  const commit = () => {
+    const min = parseDuration(draft);
+    if (min != null && min > 0) {
+      if (min !== value) onChange(min);
+      setDraft(String(min));
+      onCommit?.();
+    } else {
+      setDraft(String(value));
+    }
+  };
+  return (
+    <input
+      className="inline"
+      value={draft}
+      title="Minutes, or e.g. 1h30, 90m, 1:30"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+    />
+  );
+};
+
+// Details/Notes cell: a one-line preview of the Markdown text that opens the side editor
+const NotesPreview: React.FC<{ text?: string; placeholder: string; open?: boolean; onOpen: () => void }> = ({ text, placeholder, open, onOpen }) => {
+  const preview = markdownPreview(text ?? '');
+  return (
+    <button className={[preview ? 'notes-preview' : 'notes-preview empty', open ? 'open' : ''].filter(Boolean).join(' ')} onClick={onOpen} title={preview ? 'Edit in the side editor' : undefined}>
+      {preview || placeholder}
+    </button>
+  );
+};
+
 // Row component for sortable activities (computed rows are not draggable)
 const SortableActivityRow: React.FC<{
   activity: Activity;
   startMin: number;
   endMin: number;
+  driftMin?: number;
   onChange: (a: Activity) => void;
   onRemove: (id: ID) => void;
   overtime?: boolean;
   onCommit?: () => void;
-}> = ({ activity, startMin, endMin, onChange, onRemove, overtime, onCommit }) => {
-  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: activity.id });
+  onStart?: (id: ID) => void;
+  onFinish?: (id: ID) => void;
+  onReset?: (id: ID) => void;
+  people: Person[];
+  clash?: string; // why this row is double-booked, if it is
+  zoneCells?: string[]; // start–end in each display timezone
+  highlighted?: boolean;
+  parked?: boolean; // in the parking lot: untimed, with a Restore action
+  onRestore?: (id: ID) => void;
+  notesOpen?: boolean;
+  onOpenNotes?: (id: ID) => void;
+}> = ({ activity, startMin, endMin, driftMin, onChange, onRemove, overtime, onCommit, onStart, onFinish, onReset, people, clash, zoneCells = [], highlighted, parked, onRestore, notesOpen, onOpenNotes }) => {
+  const running = activity.actualStartAt != null && activity.actualEndAt == null;
+  const pinned = activity.fixedStartMin != null;
+  const flexible = activity.minDurationMin != null || activity.maxDurationMin != null;
+  const slideCount = countSlides(parseSlideRanges(activity.slideNumber) ?? []);
+  // Flexible range for Auto-fit, entered as "30-60", "30-" or "-60"
+  const editFlexRange = () => {
+    const current = flexible ? `${activity.minDurationMin ?? ''}-${activity.maxDurationMin ?? ''}` : `${Math.round(activity.durationMin * 0.75)}-${Math.round(activity.durationMin * 1.25)}`;
+    const input = window.prompt('Flexible duration for Auto-fit in minutes (min-max, e.g. 30-60; "30-" or "-60" for one bound; empty for fixed):', current);
+    if (input == null) return;
+    const range = parseFlexRange(input);
+    if (!range) {
+      alert(`"${input}" is not a valid range. Use min-max in minutes, e.g. 30-60.`);
+      return;
+    }
+    onChange({ ...activity, ...range });
+    onCommit?.();
+  };
+  // Pinned rows stay anchored at their time, so they cannot be dragged
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: activity.id, disabled: pinned });
   const style: React.CSSProperties = {
     transform: CSS.Transform.toString(transform),
     transition,
@@ -54,8 +156,12 @@ const SortableActivityRow: React.FC<{
   };
 
   return (
-    <tr ref={setNodeRef} className={`${activity.completed ? 'completed' : ''} ${overtime ? 'overtime' : ''}`.trim()} style={style} {...attributes}>
-      <td className="drag" {...listeners} title="Drag to reorder">⋮⋮</td>
+    <tr ref={setNodeRef} className={[activity.completed ? 'completed' : '', overtime ? 'overtime' : '', running ? 'running' : '', clash ? 'clash' : '', highlighted ? 'highlight' : '', activity.priority === 'optional' ? 'optional' : '', systemClass(activity)].filter(Boolean).join(' ')} style={style} {...attributes} title={clash} data-activity-id={activity.id}>
+      {pinned ? (
+        <td className="drag pinned" title="Pinned — unpin to move">📌</td>
+      ) : (
+        <td className="drag" {...listeners} title="Drag to reorder">⋮⋮</td>
+      )}
       <td>
         <input
           className="inline"
@@ -65,12 +171,7 @@ const SortableActivityRow: React.FC<{
         />
       </td>
       <td>
-        <input
-          className="inline"
-          value={activity.owner}
-          onChange={(e) => onChange({ ...activity, owner: e.target.value })}
-          onBlur={onCommit}
-        />
+        <OwnerPicker value={activity.owner} people={people} onChange={(owner) => onChange({ ...activity, owner })} onCommit={onCommit} />
       </td>
       <td>
         <input
@@ -79,45 +180,114 @@ const SortableActivityRow: React.FC<{
           onChange={(e) => onChange({ ...activity, slideNumber: e.target.value })}
           onBlur={onCommit}
         />
+        {slideCount > 0 && (
+          <span className="slide-count">
+            {slideCount} slide{slideCount === 1 ? '' : 's'}
+            {activity.durationMin > 0 && ` · ${(activity.durationMin / slideCount).toFixed(1)} min/slide`}
+          </span>
+        )}
       </td>
       <td>
-        <input
-          className="inline"
-          type="number"
-          min={1}
-          value={activity.durationMin}
-          onChange={(e) => onChange({ ...activity, durationMin: Number(e.target.value || 0) })}
-          onBlur={onCommit}
-        />
+        <DurationInput value={activity.durationMin} onChange={(durationMin) => onChange({ ...activity, durationMin })} onCommit={onCommit} />
+        {flexible && <span className="flex-range" title="Auto-fit may change the duration within this range">{formatFlexRange(activity)}</span>}
       </td>
       <td>
-        <input
-          className="inline"
-          value={activity.files ?? ''}
-          onChange={(e) => onChange({ ...activity, files: e.target.value })}
-          onBlur={onCommit}
-        />
+        <AttachmentList files={activityAttachments(activity)} onChange={(files) => onChange(withAttachments(activity, files))} onCommit={onCommit} />
       </td>
       <td>
-        <input
-          className="inline"
-          value={activity.details ?? ''}
-          onChange={(e) => onChange({ ...activity, details: e.target.value })}
-          onBlur={onCommit}
-        />
+        <NotesPreview text={activity.details} placeholder="Add details" open={notesOpen} onOpen={() => onOpenNotes?.(activity.id)} />
       </td>
       <td>
-        <input
-          className="inline"
-          value={activity.notes ?? ''}
-          onChange={(e) => onChange({ ...activity, notes: e.target.value })}
-          onBlur={onCommit}
-        />
+        <NotesPreview text={activity.notes} placeholder="Add notes" open={notesOpen} onOpen={() => onOpenNotes?.(activity.id)} />
       </td>
-      <td className="time">{formatMin(startMin)}</td>
-      <td className="time">{formatMin(endMin)}</td>
+      {parked ? (
+        <>
+          <td className="time">—</td>
+          <td className="time">—</td>
+        </>
+      ) : (
+        <>
+          <td className="time">
+            {pinned ? (
+              <input
+                className="inline"
+                type="time"
+                value={formatMin24(activity.fixedStartMin!)}
+                onChange={(e) => {
+                  const v = parseTimeToMin(e.target.value);
+                  if (v != null) onChange({ ...activity, fixedStartMin: v });
+                }}
+                onBlur={onCommit}
+                title="Pinned start time"
+              />
+            ) : (
+              formatMin(startMin)
+            )}
+          </td>
+          <td className="time">
+            {formatMin(endMin)}
+            {!!driftMin && (
+              <span className={`drift ${driftMin > 0 ? 'behind' : 'ahead'}`} title="Drift from plan">{formatDrift(driftMin)}</span>
+            )}
+          </td>
+        </>
+      )}
+      {zoneCells.map((text, i) => (
+        <td key={i} className="time zone">{text}</td>
+      ))}
       <td>
-        <label title="Completed" style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+        {parked ? (
+          <button onClick={() => onRestore?.(activity.id)} title="Move back to the section it was parked from">Restore</button>
+        ) : (
+          <>
+            {running ? (
+              <button onClick={() => onFinish?.(activity.id)} title="Finish now" aria-label="Finish">■</button>
+            ) : activity.actualStartAt != null ? (
+              <button onClick={() => onReset?.(activity.id)} title="Clear actual times" aria-label="Clear actual times">↺</button>
+            ) : (
+              <button onClick={() => onStart?.(activity.id)} title="Start now" aria-label="Start">▶</button>
+            )}
+            <button
+              className={pinned ? 'pin active' : 'pin'}
+              onClick={() => {
+                onChange({ ...activity, fixedStartMin: pinned ? undefined : startMin });
+                onCommit?.();
+              }}
+              title={pinned ? 'Unpin start time' : 'Pin at this start time'}
+              aria-label={pinned ? 'Unpin' : 'Pin'}
+              style={{ marginLeft: 8 }}
+            >
+              📌
+            </button>
+            <button
+              className={flexible ? 'flex active' : 'flex'}
+              onClick={editFlexRange}
+              title={flexible ? `Flexible: ${formatFlexRange(activity)}` : 'Make duration flexible for Auto-fit'}
+              aria-label="Flexible duration"
+              style={{ marginLeft: 8 }}
+            >
+              ↔
+            </button>
+          </>
+        )}
+        {!activity.isSystem && (
+          <select
+            className="priority"
+            value={activity.priority ?? 'should'}
+            onChange={(e) => {
+              const priority = e.target.value as Priority;
+              onChange({ ...activity, priority: priority === 'should' ? undefined : priority });
+              onCommit?.();
+            }}
+            title="Priority (optional items are proposed for the cut list)"
+            style={{ marginLeft: 8 }}
+          >
+            <option value="must">Must</option>
+            <option value="should">Should</option>
+            <option value="optional">Optional</option>
+          </select>
+        )}
+        <label title="Completed" style={{ display: 'inline-flex', alignItems: 'center', gap: 6, marginLeft: 8 }}>
           <input
             type="checkbox"
             checked={!!activity.completed}
@@ -133,7 +303,7 @@ const SortableActivityRow: React.FC<{
   );
 };
 
-const ComputedRowView: React.FC<{ row: ComputedRow }> = ({ row }) => {
+const ComputedRowView: React.FC<{ row: ComputedRow; zoneCells?: string[] }> = ({ row, zoneCells = [] }) => {
   if (row.type === 'activity') return null;
   return (
     <tr className={`computed ${row.type}`}>
@@ -142,6 +312,9 @@ const ComputedRowView: React.FC<{ row: ComputedRow }> = ({ row }) => {
       </td>
       <td className="time">{formatMin(row.startMin)}</td>
       <td className="time">{formatMin(row.endMin)}</td>
+      {zoneCells.map((text, i) => (
+        <td key={i} className="time zone">{text}</td>
+      ))}
       <td></td>
     </tr>
   );
@@ -157,14 +330,39 @@ const AgendaTable: React.FC<TableProps> = ({
   onRemoveActivity,
   onReorder,
   hideCompleted,
+  ownerFilter,
+  people = [],
+  ownerClashes = [],
+  displayZones = [],
+  convertTime,
+  budgets,
+  highlightId,
+  highlightNonce,
+  onRestoreActivity,
+  notesOpenId,
+  onOpenNotes,
   collapsed,
   onToggleCollapse,
-  dayEndMin,
+  dayEndMinFor,
+  dayDate,
+  runStatus,
+  onStartActivity,
+  onFinishActivity,
+  onResetActivityTimes,
   columnWidths,
   onColumnWidthsChange,
 }) => {
   const tableRefs = useRef<Record<ID, HTMLTableElement | null>>({} as any);
 
+  // Bring the highlighted row or section into view
+  useEffect(() => {
+    if (!highlightId) return;
+    // Ids come from imported files, so they are escaped before going into a selector (CSS here is dnd-kit's)
+    const id = window.CSS.escape(highlightId);
+    const el = document.querySelector(`[data-activity-id="${id}"]`) ?? document.querySelector(`[data-section-id="${id}"]`);
+    el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightId, highlightNonce]);
+
   const sensors = useSensors(
     useSensor(MouseSensor, { activationConstraint: { distance: 6 } }),
     useSensor(TouchSensor),
@@ -176,6 +374,11 @@ const AgendaTable: React.FC<TableProps> = ({
   for (const s of sections) idsBySection.set(s.id, []);
   for (const a of activities) idsBySection.get(a.sectionId)?.push(a.id);
 
+  // In an owner view only that owner's activities are listed, and sections without any are hidden
+  const visibleRows = ownerFilter
+    ? computed.filter((r) => r.type === 'activity' && !r.activity.isSystem && hasOwner(r.activity, ownerFilter, people))
+    : computed;
+
   const onDragEnd = (e: DragEndEvent) => {
     const activeId = e.active.id as ID;
     const overId = (e.over?.id as ID) ?? null;
@@ -184,102 +387,223 @@ const AgendaTable: React.FC<TableProps> = ({
     onReorder(activeId, overId, overSectionId);
   };
 
+  const clashById = new Map<ID, string>();
+  for (const c of ownerClashes) {
+    const at = `${formatMin(c.startMin)}–${formatMin(c.endMin)}`;
+    clashById.set(c.first.id, `${c.owner} is also in "${c.second.title}" (${c.second.track}) at ${at}`);
+    clashById.set(c.second.id, `${c.owner} is also in "${c.first.title}" (${c.first.track}) at ${at}`);
+  }
+
+  // The parking lot has no computed rows, so its activities are listed as they are
+  const parkedActivities = (section: Section) =>
+    activities.filter((a) => a.sectionId === section.id && (!ownerFilter || hasOwner(a, ownerFilter, people)) && !(hideCompleted && a.completed));
+  const parkingLots = sections.filter((s) => s.parkingLot && (!ownerFilter || parkedActivities(s).length > 0));
+
+  // Start–End of a row in each display timezone, with day rollover
+  const zoneCells = (section: Section, row: ComputedRow): string[] => {
+    if (!convertTime) return [];
+    const starts = convertTime(section.dayNumber ?? 1, row.startMin);
+    const ends = convertTime(section.dayNumber ?? 1, row.endMin);
+    return starts.map((s, i) => `${formatMinWithOffset(s.min, s.dayOffset)} – ${formatMinWithOffset(ends[i].min, ends[i].dayOffset)}`);
+  };
+
+  // One section card; used on its own or inside a track column
+  const renderSection = (section: Section) => (
+    <SectionDroppable key={section.id} sectionId={section.id}>
+      <div className={`section day-${section.dayNumber ?? 1}${highlightId === section.id ? ' highlight' : ''}`}>
+      <div className="section-header">
+        <button
+          className={`toggle ${collapsed?.[section.id] ? 'collapsed' : 'expanded'}`}
+          onClick={() => onToggleCollapse && onToggleCollapse(section.id)}
+          title={collapsed?.[section.id] ? 'Expand' : 'Collapse'}
+          aria-label={collapsed?.[section.id] ? 'Expand section' : 'Collapse section'}
+        >
+          ▶
+        </button>
+        <h3 style={{ flex: 1, marginLeft: 6 }}>
+          {section.name}
+          {section.parkingLot && <span className="section-date">Not timed or printed</span>}
+          {!section.parkingLot && dayDate?.(section.dayNumber ?? 1) && <span className="section-date">{formatDate(dayDate(section.dayNumber ?? 1)!)}</span>}
+        </h3>
+        {budgets?.sections[section.id]?.budgetMin != null && (
+          <span className={budgetClass(budgets.sections[section.id])} title="Planned activity time vs. section budget">
+            {describeBudget(budgets.sections[section.id])}
+          </span>
+        )}
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <button onClick={() => onAddActivity(section.id)}>Add activity</button>
+        </div>
+      </div>
+      {!collapsed?.[section.id] && (
+      <table className="agenda" ref={(el) => (tableRefs.current[section.id] = el)}>
+        {columnWidths && (
+          <colgroup>
+            <col style={{ width: '28px' }} />
+            <col style={{ width: `${columnWidths.activity}%` }} />
+            <col style={{ width: `${columnWidths.owner}%` }} />
+            <col style={{ width: `${columnWidths.slide}%` }} />
+            <col style={{ width: `${columnWidths.duration}%` }} />
+            <col style={{ width: `${columnWidths.files}%` }} />
+            <col style={{ width: `${columnWidths.details}%` }} />
+            <col style={{ width: `${columnWidths.notes}%` }} />
+            <col style={{ width: `${columnWidths.starts}%` }} />
+            <col style={{ width: `${columnWidths.ends}%` }} />
+            {displayZones.map((tz) => (
+              <col key={tz} style={{ width: '150px' }} />
+            ))}
+            <col style={{ width: '170px' }} />
+          </colgroup>
+        )}
+        <thead>
+          <tr>
+            <th></th>
+            <th className="resizable">
+              Activity
+              <span className="col-resizer" onMouseDown={(e) => startResize(e, 'activity')}></span>
+            </th>
+            <th className="resizable">
+              Owner
+              <span className="col-resizer" onMouseDown={(e) => startResize(e, 'owner')}></span>
+            </th>
+            <th className="resizable">
+              Slide #
+              <span className="col-resizer" onMouseDown={(e) => startResize(e, 'slide')}></span>
+            </th>
+            <th className="resizable">
+              Duration (min)
+              <span className="col-resizer" onMouseDown={(e) => startResize(e, 'duration')}></span>
+            </th>
+            <th className="resizable">Files<span className="col-resizer" onMouseDown={(e) => startResize(e, 'files')}></span></th>
+            <th className="resizable">Details<span className="col-resizer" onMouseDown={(e) => startResize(e, 'details')}></span></th>
+            <th className="resizable">Notes<span className="col-resizer" onMouseDown={(e) => startResize(e, 'notes')}></span></th>
+            <th className="resizable">Starts<span className="col-resizer" onMouseDown={(e) => startResize(e, 'starts')}></span></th>
+            <th className="resizable">Ends<span className="col-resizer" onMouseDown={(e) => startResize(e, 'ends')}></span></th>
+            {displayZones.map((tz) => (
+              <th key={tz} title={tz}>{timeZoneLabel(tz)}</th>
+            ))}
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {/* Computed rows + activities for this section in interleaved order */}
+          <SortableContext items={idsBySection.get(section.id) ?? []} strategy={verticalListSortingStrategy}>
+            {section.parkingLot && parkedActivities(section).map((activity) => (
+              <SortableActivityRow
+                key={activity.id}
+                activity={activity}
+                startMin={0}
+                endMin={0}
+                onChange={onActivityChange}
+                onRemove={onRemoveActivity}
+                onCommit={onCommitActivityChange}
+                people={people}
+                zoneCells={displayZones.length && convertTime ? displayZones.map(() => '—') : []}
+                highlighted={highlightId === activity.id}
+                parked
+                onRestore={onRestoreActivity}
+                notesOpen={notesOpenId === activity.id}
+                onOpenNotes={onOpenNotes}
+              />
+            ))}
+            {visibleRows
+              .filter((r) => r.sectionId === section.id || (r.type !== 'activity' && r.sectionId === section.id))
+              .map((row) => (
+                row.type === 'activity' ? (
+                  hideCompleted && row.activity.completed ? null : (
+                  <SortableActivityRow
+                    key={row.id}
+                    activity={row.activity}
+                    startMin={row.startMin}
+                    endMin={row.endMin}
+                    driftMin={row.plannedEndMin != null ? row.endMin - row.plannedEndMin : 0}
+                    onChange={onActivityChange}
+                    onRemove={onRemoveActivity}
+                    overtime={dayEndMinFor ? row.endMin > dayEndMinFor(section.dayNumber ?? 1) : false}
+                    onCommit={onCommitActivityChange}
+                    onStart={onStartActivity}
+                    onFinish={onFinishActivity}
+                    onReset={onResetActivityTimes}
+                    people={people}
+                    clash={clashById.get(row.activity.id)}
+                    zoneCells={zoneCells(section, row)}
+                    highlighted={highlightId === row.activity.id}
+                    notesOpen={notesOpenId === row.activity.id}
+                    onOpenNotes={onOpenNotes}
+                  />
+                  )
+                ) : (
+                  <ComputedRowView key={row.id} row={row} zoneCells={zoneCells(section, row)} />
+                )
+              ))}
+          </SortableContext>
+        </tbody>
+      </table>
+      )}
+      </div>
+    </SectionDroppable>
+  );
+
   return (
     <DndContext sensors={sensors} onDragEnd={onDragEnd}>
-      {sections
-        .slice()
-        .sort((a, b) => a.order - b.order)
-        .map((section) => (
-          <SectionDroppable key={section.id} sectionId={section.id}>
-            <div className={`section day-${section.dayNumber ?? 1}`}>
-            <div className="section-header">
-              <button
-                className={`toggle ${collapsed?.[section.id] ? 'collapsed' : 'expanded'}`}
-                onClick={() => onToggleCollapse && onToggleCollapse(section.id)}
-                title={collapsed?.[section.id] ? 'Expand' : 'Collapse'}
-                aria-label={collapsed?.[section.id] ? 'Expand section' : 'Collapse section'}
-              >
-                ▶
-              </button>
-              <h3 style={{ flex: 1, marginLeft: 6 }}>{section.name}</h3>
-              <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
-                <button onClick={() => onAddActivity(section.id)}>Add activity</button>
-              </div>
-            </div>
-            {!collapsed?.[section.id] && (
-            <table className="agenda" ref={(el) => (tableRefs.current[section.id] = el)}>
-              {columnWidths && (
-                <colgroup>
-                  <col style={{ width: '28px' }} />
-                  <col style={{ width: `${columnWidths.activity}%` }} />
-                  <col style={{ width: `${columnWidths.owner}%` }} />
-                  <col style={{ width: `${columnWidths.slide}%` }} />
-                  <col style={{ width: `${columnWidths.duration}%` }} />
-                  <col style={{ width: `${columnWidths.files}%` }} />
-                  <col style={{ width: `${columnWidths.details}%` }} />
-                  <col style={{ width: `${columnWidths.notes}%` }} />
-                  <col style={{ width: `${columnWidths.starts}%` }} />
-                  <col style={{ width: `${columnWidths.ends}%` }} />
-                  <col style={{ width: '90px' }} />
-                </colgroup>
-              )}
-              <thead>
-                <tr>
-                  <th></th>
-                  <th className="resizable">
-                    Activity
-                    <span className="col-resizer" onMouseDown={(e) => startResize(e, 'activity')}></span>
-                  </th>
-                  <th className="resizable">
-                    Owner
-                    <span className="col-resizer" onMouseDown={(e) => startResize(e, 'owner')}></span>
-                  </th>
-                  <th className="resizable">
-                    Slide #
-                    <span className="col-resizer" onMouseDown={(e) => startResize(e, 'slide')}></span>
-                  </th>
-                  <th className="resizable">
-                    Duration (min)
-                    <span className="col-resizer" onMouseDown={(e) => startResize(e, 'duration')}></span>
-                  </th>
-                  <th className="resizable">Files<span className="col-resizer" onMouseDown={(e) => startResize(e, 'files')}></span></th>
-                  <th className="resizable">Details<span className="col-resizer" onMouseDown={(e) => startResize(e, 'details')}></span></th>
-                  <th className="resizable">Notes<span className="col-resizer" onMouseDown={(e) => startResize(e, 'notes')}></span></th>
-                  <th className="resizable">Starts<span className="col-resizer" onMouseDown={(e) => startResize(e, 'starts')}></span></th>
-                  <th className="resizable">Ends<span className="col-resizer" onMouseDown={(e) => startResize(e, 'ends')}></span></th>
-                  <th></th>
-                </tr>
-              </thead>
-              <tbody>
-                {/* Computed rows + activities for this section in interleaved order */}
-                <SortableContext items={idsBySection.get(section.id) ?? []} strategy={verticalListSortingStrategy}>
-                  {computed
-                    .filter((r) => r.sectionId === section.id || (r.type !== 'activity' && r.sectionId === section.id))
-                    .map((row) => (
-                      row.type === 'activity' ? (
-                        hideCompleted && row.activity.completed ? null : (
-                        <SortableActivityRow
-                          key={row.id}
-                          activity={row.activity}
-                          startMin={row.startMin}
-                          endMin={row.endMin}
-                          onChange={onActivityChange}
-                          onRemove={onRemoveActivity}
-                          overtime={typeof dayEndMin === 'number' ? row.endMin > dayEndMin! : false}
-                          onCommit={onCommitActivityChange}
-                        />
-                        )
-                      ) : (
-                        <ComputedRowView key={row.id} row={row} />
-                      )
-                    ))}
-                </SortableContext>
-              </tbody>
-            </table>
-            )}
-            </div>
-          </SectionDroppable>
+      <datalist id={PEOPLE_DATALIST_ID}>
+        {people.map((p) => (
+          <option key={p.id} value={p.name}>{p.role}</option>
         ))}
+      </datalist>
+      {runStatus && (
+        <div className={`banner run-status ${runStatus.driftMin > 0 ? 'warning' : ''}`.trim()}>
+          <strong>
+            Day {runStatus.dayNumber}:{' '}
+            {runStatus.driftMin > 0
+              ? `Behind by ${runStatus.driftMin} min`
+              : runStatus.driftMin < 0
+                ? `Ahead by ${-runStatus.driftMin} min`
+                : 'On time'}
+          </strong>
+          <span>
+            Projected end {formatMin(runStatus.projectedEndMin)}
+            {dayEndMinFor && ` (${formatDrift(runStatus.projectedEndMin - dayEndMinFor(runStatus.dayNumber))} vs. ${formatMin(dayEndMinFor(runStatus.dayNumber))} end of day)`}
+          </span>
+        </div>
+      )}
+      {budgets && Object.values(budgets.days).some((b) => b.budgetMin != null) && (
+        <div className="banner day-budgets">
+          {Object.entries(budgets.days)
+            .filter(([, b]) => b.budgetMin != null)
+            .map(([day, b]) => (
+              <span key={day} className={budgetClass(b)}>Day {day}: {describeBudget(b)}</span>
+            ))}
+        </div>
+      )}
+      {ownerClashes.length > 0 && (
+        <div className="banner warning owner-clashes">
+          <strong>Double-booked owners</strong>
+          <ul>
+            {ownerClashes.map((c) => (
+              <li key={`${c.first.id}-${c.second.id}`}>
+                {c.owner}: "{c.first.title}" ({c.first.track}) and "{c.second.title}" ({c.second.track}) overlap
+                {' '}on Day {c.dayNumber}, {formatMin(c.startMin)}–{formatMin(c.endMin)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {groupSectionsByTrack(sections.filter((section) => !ownerFilter || visibleRows.some((r) => r.sectionId === section.id))).map((block) =>
+        block.lanes[0].track === null ? (
+          block.lanes[0].sections.map(renderSection)
+        ) : (
+          // Sections in tracks run in parallel, so they are shown side by side
+          <div key={`tracks-${block.lanes[0].sections[0].id}`} className="track-columns">
+            {block.lanes.map((lane) => (
+              <div key={lane.track} className="track-column">
+                <div className="track-title">{lane.track}</div>
+                {lane.sections.map(renderSection)}
+              </div>
+            ))}
+          </div>
+        ),
+      )}
+      {parkingLots.map(renderSection)}
       <DragOverlay />
     </DndContext>
   );
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Attachment } from '../models';
+import { attachmentHref, attachmentLabel, attachmentProblems, formatAttachmentList, parseAttachmentList } from '@utils/attachments';
+
+interface Props {
+  files: Attachment[];
+  onChange: (files: Attachment[]) => void;
+  onCommit?: () => void;
+}
+
+// Link to a file: web addresses open in a new tab, local paths are shown with the full path on hover
+export const AttachmentLink: React.FC<{ file: Attachment }> = ({ file }) => {
+  const href = attachmentHref(file.path);
+  return href ? (
+    <a href={href} target="_blank" rel="noopener noreferrer" title={file.path}>{attachmentLabel(file)}</a>
+  ) : (
+    <span className="attachment-path" title={file.path}>{attachmentLabel(file)}</span>
+  );
+};
+
+// Files cell: one link per attachment plus a text box for adding more.
+// Type a path or URL, or "Name <path>"; Enter, comma or leaving the box adds it. ✎ edits an entry.
+const AttachmentList: React.FC<Props> = ({ files, onChange, onCommit }) => {
+  const [draft, setDraft] = React.useState('');
+  const problems = new Map(attachmentProblems(files).map((p) => [p.attachment.id, p.kind] as const));
+
+  const setFiles = (next: Attachment[]) => {
+    onChange(next);
+    onCommit?.();
+  };
+  const addDraft = (text = draft) => {
+    setDraft('');
+    const added = parseAttachmentList(text);
+    if (added.length) setFiles([...files, ...added]);
+    else onCommit?.();
+  };
+  const edit = (file: Attachment) => {
+    const input = window.prompt('File path or URL, optionally "Name <path>" (empty removes it):', formatAttachmentList([file]));
+    if (input == null) return;
+    const [parsed] = parseAttachmentList(input);
+    setFiles(parsed ? files.map((f) => (f.id === file.id ? { ...parsed, id: f.id } : f)) : files.filter((f) => f.id !== file.id));
+  };
+
+  return (
+    <div className="attachment-list">
+      {files.map((f) => (
+        <span key={f.id} className={problems.has(f.id) ? 'attachment problem' : 'attachment'} title={problems.get(f.id) === 'duplicate' ? 'Listed twice' : undefined}>
+          {f.path.trim() ? <AttachmentLink file={f} /> : <em>(empty)</em>}
+          <button onClick={() => edit(f)} aria-label={`Edit ${attachmentLabel(f)}`}>✎</button>
+          <button onClick={() => setFiles(files.filter((x) => x.id !== f.id))} aria-label={`Remove ${attachmentLabel(f)}`}>×</button>
+        </span>
+      ))}
+      <input
+        className="inline"
+        value={draft}
+        placeholder={files.length ? '' : 'Add file or link'}
+        onChange={(e) => {
+          // A comma (typed or pasted) ends the current entry
+          if (e.target.value.includes(',')) {
+            const parts = e.target.value.split(',');
+            const rest = parts.pop() ?? '';
+            addDraft(parts.join(','));
+            setDraft(rest);
+          } else {
+            setDraft(e.target.value);
+          }
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            addDraft();
+          }
+        }}
+        onBlur={() => addDraft()}
+      />
+    </div>
+  );
+};
+
+export default AttachmentList;
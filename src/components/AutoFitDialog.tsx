@@ -0,0 +1,80 @@
+import React from 'react';
+import Modal from './Modal';
+import type { AutoFitPlan } from '@utils/autofit';
+import { formatDrift, formatMin } from '@utils/time';
+
+interface Props {
+  plan: AutoFitPlan;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+// Before/after preview of an Auto-fit: when each day ends and every duration that changes.
+const AutoFitDialog: React.FC<Props> = ({ plan, onApply, onCancel }) => {
+  const unfit = plan.days.filter((d) => d.afterEndMin !== d.dayEndMin);
+
+  return (
+    <Modal
+      title="Auto-fit days"
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel}>Cancel</button>
+          <button className="primary" disabled={!plan.changes.length} onClick={onApply}>Apply</button>
+        </>
+      }
+    >
+      <table className="report-table">
+        <thead>
+          <tr>
+            <th>Day</th>
+            <th>End of day</th>
+            <th>Ends now</th>
+            <th>After auto-fit</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.days.map((d) => (
+            <tr key={d.dayNumber}>
+              <td>Day {d.dayNumber}</td>
+              <td>{formatMin(d.dayEndMin)}</td>
+              <td>{formatMin(d.beforeEndMin)} ({formatDrift(d.beforeEndMin - d.dayEndMin)})</td>
+              <td>{formatMin(d.afterEndMin)} ({formatDrift(d.afterEndMin - d.dayEndMin)})</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {unfit.length > 0 && (
+        <p className="hint warning">
+          Not enough flexible time to fit Day {unfit.map((d) => d.dayNumber).join(', ')} exactly. Give more activities a minimum or maximum duration (↔ in the table).
+        </p>
+      )}
+
+      <h3 className="modal-subtitle">{plan.changes.length} duration{plan.changes.length === 1 ? '' : 's'} to change</h3>
+      {plan.changes.length > 0 && (
+        <table className="report-table">
+          <thead>
+            <tr>
+              <th>Activity</th>
+              <th>Day</th>
+              <th>Before</th>
+              <th>After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.changes.map((c) => (
+              <tr key={c.activityId}>
+                <td>{c.title || '(untitled)'}</td>
+                <td>{c.dayNumber}</td>
+                <td>{c.fromMin} min</td>
+                <td>{c.toMin} min ({c.toMin > c.fromMin ? '+' : ''}{c.toMin - c.fromMin})</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Modal>
+  );
+};
+
+export default AutoFitDialog;
@@ -0,0 +1,130 @@
+import React from 'react';
+import Modal from './Modal';
+import { buildCsvImport, CSV_FIELDS, CsvDelimiter, CsvImportResult, CsvMapping, guessCsvMapping, parseCsv } from '@utils/csv';
+
+interface Props {
+  text: string; // raw file contents
+  onImport: (result: CsvImportResult) => void;
+  onCancel: () => void;
+}
+
+const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+];
+
+const PREVIEW_ROWS = 25;
+
+// CSV import with column mapping: pick which spreadsheet column feeds each activity field
+// and preview the resulting sections and rows before importing.
+const CsvImportDialog: React.FC<Props> = ({ text, onImport, onCancel }) => {
+  const [delimiter, setDelimiter] = React.useState<CsvDelimiter>(() => parseCsv(text).delimiter);
+  const [hasHeader, setHasHeader] = React.useState(true);
+  const parsed = React.useMemo(() => parseCsv(text, delimiter), [text, delimiter]);
+  const header = hasHeader ? parsed.rows[0] ?? [] : [];
+  const dataRows = React.useMemo(() => (hasHeader ? parsed.rows.slice(1) : parsed.rows), [parsed, hasHeader]);
+  const columnCount = Math.max(0, ...parsed.rows.map((r) => r.length));
+
+  const [mapping, setMapping] = React.useState<CsvMapping>(() => guessCsvMapping(parsed.rows[0] ?? []));
+  // Re-guess when the delimiter or header setting changes, since the columns differ
+  React.useEffect(() => {
+    setMapping(guessCsvMapping(hasHeader ? parsed.rows[0] ?? [] : []));
+  }, [parsed, hasHeader]);
+
+  const result = React.useMemo(() => buildCsvImport(dataRows, mapping), [dataRows, mapping]);
+  const sectionName = new Map(result.sections.map((s) => [s.id, s.name] as const));
+  const columnLabel = (i: number) => `Column ${i + 1}${header[i] ? `: ${header[i]}` : ''}`;
+
+  return (
+    <Modal
+      title="Import CSV"
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel}>Cancel</button>
+          <button className="primary" disabled={!result.activities.length || mapping.title < 0} onClick={() => onImport(result)}>
+            Import {result.activities.length} activities
+          </button>
+        </>
+      }
+    >
+      <div className="row" style={{ alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+        <label>
+          Delimiter{' '}
+          <select value={delimiter} onChange={(e) => setDelimiter(e.target.value as CsvDelimiter)}>
+            {DELIMITERS.map((d) => (
+              <option key={d.label} value={d.value}>{d.label}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+          First row is a header
+        </label>
+      </div>
+
+      <h3 className="modal-subtitle">Columns</h3>
+      <div className="grid-2">
+        {CSV_FIELDS.map(({ field, label }) => (
+          <label key={field}>
+            {label}
+            <select
+              value={mapping[field]}
+              onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+            >
+              <option value={-1}>— not imported —</option>
+              {Array.from({ length: columnCount }).map((_, i) => (
+                <option key={i} value={i}>{columnLabel(i)}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      {mapping.title < 0 && <p className="hint warning">Map a column to Title to import.</p>}
+
+      <h3 className="modal-subtitle">
+        Preview: {result.sections.length} section{result.sections.length === 1 ? '' : 's'}, {result.activities.length} activit{result.activities.length === 1 ? 'y' : 'ies'}
+      </h3>
+      <table className="report-table">
+        <thead>
+          <tr>
+            <th>Section</th>
+            <th>Title</th>
+            <th>Owner</th>
+            <th>Min</th>
+            <th>Details</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.activities.slice(0, PREVIEW_ROWS).map((a) => (
+            <tr key={a.id}>
+              <td>{sectionName.get(a.sectionId)}</td>
+              <td>{a.title}</td>
+              <td>{a.owner}</td>
+              <td>{a.durationMin}</td>
+              <td className="preview-text">{a.details}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {result.activities.length > PREVIEW_ROWS && <p className="hint">…and {result.activities.length - PREVIEW_ROWS} more.</p>}
+      {result.skipped.length > 0 && (
+        <>
+          <p className="hint warning">
+            {result.skipped.length} row{result.skipped.length === 1 ? '' : 's'} will not be imported because the duration could not be read:
+          </p>
+          <ul className="hint warning">
+            {result.skipped.slice(0, PREVIEW_ROWS).map((row) => (
+              <li key={row.rowIndex}>
+                Row {row.rowIndex + (hasHeader ? 2 : 1)}{row.title ? ` "${row.title}"` : ''}: "{row.duration}"
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default CsvImportDialog;
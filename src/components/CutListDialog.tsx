@@ -0,0 +1,90 @@
+import React from 'react';
+import Modal from './Modal';
+import { ID } from '../models';
+import type { CutPlan } from '@utils/cuts';
+import { formatDrift, formatMin } from '@utils/time';
+
+interface Props {
+  plan: CutPlan;
+  onPark: (ids: ID[]) => void; // move to the parking lot
+  onDelete: (ids: ID[]) => void;
+  onCancel: () => void;
+}
+
+// Proposed optional activities to cut from days that run long; any of them can be unticked first.
+const CutListDialog: React.FC<Props> = ({ plan, onPark, onDelete, onCancel }) => {
+  const [selected, setSelected] = React.useState<ID[]>(plan.items.map((i) => i.activityId));
+  const toggle = (id: ID) => setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  const short = plan.days.filter((d) => d.afterEndMin > d.dayEndMin);
+
+  return (
+    <Modal
+      title="Cut list"
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel}>Cancel</button>
+          <button className="danger" disabled={!selected.length} onClick={() => onDelete(selected)}>Delete</button>
+          <button className="primary" disabled={!selected.length} onClick={() => onPark(selected)}>Move to parking lot</button>
+        </>
+      }
+    >
+      <table className="report-table">
+        <thead>
+          <tr>
+            <th>Day</th>
+            <th>End of day</th>
+            <th>Ends now</th>
+            <th>With all cuts</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.days.map((d) => (
+            <tr key={d.dayNumber}>
+              <td>Day {d.dayNumber}</td>
+              <td>{formatMin(d.dayEndMin)}</td>
+              <td>{formatMin(d.endMin)} ({formatDrift(d.endMin - d.dayEndMin)})</td>
+              <td>{formatMin(d.afterEndMin)} ({formatDrift(d.afterEndMin - d.dayEndMin)})</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {short.length > 0 && (
+        <p className="hint warning">
+          Not enough optional activities to end Day {short.map((d) => d.dayNumber).join(', ')} on time. Mark more activities as Optional in the table.
+        </p>
+      )}
+
+      <h3 className="modal-subtitle">{plan.items.length} optional activit{plan.items.length === 1 ? 'y' : 'ies'} proposed</h3>
+      {plan.items.length > 0 && (
+        <table className="report-table">
+          <thead>
+            <tr>
+              <th></th>
+              <th>Activity</th>
+              <th>Day</th>
+              <th>Section</th>
+              <th>Duration</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.items.map((item) => (
+              <tr key={item.activityId}>
+                <td>
+                  <input type="checkbox" checked={selected.includes(item.activityId)} onChange={() => toggle(item.activityId)} aria-label={`Cut ${item.title}`} />
+                </td>
+                <td>{item.title || '(untitled)'}</td>
+                <td>{item.dayNumber}</td>
+                <td>{item.section}</td>
+                <td>{item.durationMin} min</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="hint">Parked activities keep all their details and can be restored from the parking lot at the end of the agenda.</p>
+    </Modal>
+  );
+};
+
+export default CutListDialog;
@@ -1,6 +1,7 @@
 import React from 'react';
-import type { DayConfig as DayCfg } from '../models';
+import type { DayConfig as DayCfg, DayOverride } from '../models';
 import { parseTimeToMin, formatMin24 } from '@utils/time';
+import { formatDate, isValidTimeZone, listTimeZones, localTimeZone, timeZoneLabel } from '@utils/dates';
 
 interface Props {
   value: DayCfg;
@@ -10,14 +11,58 @@ interface Props {
   autoApplyEnabled?: boolean; // if true, will auto-apply once
   onToggleAutoApply?: (enabled: boolean) => void;
   onClearInjections?: () => void;
+  onAutoFit?: () => void; // preview fitting flexible activities into each day
+  onCutList?: () => void; // propose optional activities to cut from days that run long
 }
 
 // Day configuration panel for start/end times, breaks, and lunch.
 // Uses native inputs where possible for easy editing.
-const DayConfig: React.FC<Props> = ({ value, onChange, onApply, isDirty, autoApplyEnabled, onToggleAutoApply, onClearInjections }) => {
+const DayConfig: React.FC<Props> = ({ value, onChange, onApply, isDirty, autoApplyEnabled, onToggleAutoApply, onClearInjections, onAutoFit, onCutList }) => {
   // Helper to update a numeric field
   const set = (patch: Partial<DayCfg>) => onChange({ ...value, ...patch });
 
+  // Per-day overrides: edit one day at a time; empty inputs fall back to the global settings
+  const [overrideDay, setOverrideDay] = React.useState(1);
+  const numberOfDays = Math.max(1, value.numberOfDays ?? 1);
+  const day = Math.min(overrideDay, numberOfDays);
+  const override: DayOverride = value.dayOverrides?.[day] ?? {};
+  const setOverride = (patch: DayOverride) => {
+    const nextOverride: DayOverride = { ...override, ...patch };
+    for (const k of Object.keys(nextOverride) as (keyof DayOverride)[]) {
+      if (nextOverride[k] == null) delete nextOverride[k];
+    }
+    const dayOverrides = { ...(value.dayOverrides ?? {}) };
+    if (Object.keys(nextOverride).length) dayOverrides[day] = nextOverride;
+    else delete dayOverrides[day];
+    set({ dayOverrides });
+  };
+  const overriddenDays = Object.keys(value.dayOverrides ?? {}).map(Number).filter((d) => d <= numberOfDays);
+
+  // Timezones: typed names are only stored once they are valid IANA names
+  const timeZones = React.useMemo(() => listTimeZones(), []);
+  const [zoneDraft, setZoneDraft] = React.useState(value.timeZone ?? '');
+  React.useEffect(() => setZoneDraft(value.timeZone ?? ''), [value.timeZone]);
+  const [displayDraft, setDisplayDraft] = React.useState('');
+  const commitZone = () => {
+    const tz = zoneDraft.trim();
+    if (!tz) set({ timeZone: undefined });
+    else if (isValidTimeZone(tz)) set({ timeZone: tz });
+    else {
+      alert(`"${tz}" is not a known timezone. Use an IANA name such as Europe/Berlin.`);
+      setZoneDraft(value.timeZone ?? '');
+    }
+  };
+  const addDisplayZone = () => {
+    const tz = displayDraft.trim();
+    if (!tz) return;
+    if (!isValidTimeZone(tz)) {
+      alert(`"${tz}" is not a known timezone. Use an IANA name such as America/New_York.`);
+      return;
+    }
+    if (!(value.displayTimeZones ?? []).includes(tz)) set({ displayTimeZones: [...(value.displayTimeZones ?? []), tz] });
+    setDisplayDraft('');
+  };
+
   return (
     <fieldset className="panel">
       <legend>Day Configuration</legend>
@@ -32,7 +77,81 @@ const DayConfig: React.FC<Props> = ({ value, onChange, onApply, isDirty, autoApp
             onChange={(e) => set({ numberOfDays: Math.max(1, Number(e.target.value || 1)) })}
           />
         </label>
+        <label>
+          Start Date
+          <input
+            type="date"
+            value={value.startDate ?? ''}
+            onChange={(e) => set({ startDate: e.target.value || undefined })}
+          />
+        </label>
       </div>
+      {value.startDate && (
+        <div className="grid-2">
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <input type="checkbox" checked={!!value.skipWeekends} onChange={(e) => set({ skipWeekends: e.target.checked })} />
+            Skip weekends
+          </label>
+          <label>
+            Skip Date
+            <input
+              type="date"
+              value=""
+              onChange={(e) => {
+                const d = e.target.value;
+                if (d && !(value.skippedDates ?? []).includes(d)) set({ skippedDates: [...(value.skippedDates ?? []), d].sort() });
+              }}
+            />
+          </label>
+        </div>
+      )}
+      {value.startDate && !!value.skippedDates?.length && (
+        <div className="row" style={{ flexWrap: 'wrap', marginTop: 6 }}>
+          {value.skippedDates.map((d) => (
+            <span key={d} className="chip">
+              {formatDate(d)}
+              <button onClick={() => set({ skippedDates: value.skippedDates!.filter((x) => x !== d) })} title="Remove" aria-label={`Stop skipping ${d}`}>×</button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="grid-2">
+        <label>
+          Timezone
+          <input
+            list="time-zones"
+            value={zoneDraft}
+            placeholder={localTimeZone()}
+            onChange={(e) => setZoneDraft(e.target.value)}
+            onBlur={commitZone}
+            onKeyDown={(e) => e.key === 'Enter' && commitZone()}
+          />
+        </label>
+        <label>
+          Also Show Times In
+          <input
+            list="time-zones"
+            value={displayDraft}
+            placeholder="e.g. America/New_York"
+            onChange={(e) => setDisplayDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addDisplayZone()}
+            onBlur={addDisplayZone}
+          />
+        </label>
+      </div>
+      <datalist id="time-zones">
+        {timeZones.map((tz) => <option key={tz} value={tz} />)}
+      </datalist>
+      {!!value.displayTimeZones?.length && (
+        <div className="row" style={{ flexWrap: 'wrap', marginTop: 6 }}>
+          {value.displayTimeZones.map((tz) => (
+            <span key={tz} className="chip" title={tz}>
+              {timeZoneLabel(tz)}
+              <button onClick={() => set({ displayTimeZones: value.displayTimeZones!.filter((x) => x !== tz) })} title="Remove" aria-label={`Stop showing ${tz}`}>×</button>
+            </span>
+          ))}
+        </div>
+      )}
       <div className="grid-2">
         <label>
           Start Time
@@ -104,8 +223,88 @@ const DayConfig: React.FC<Props> = ({ value, onChange, onApply, isDirty, autoApp
           />
         </label>
       </div>
+
+      {numberOfDays > 1 && (
+        <details className="day-overrides" open={overriddenDays.length > 0}>
+          <summary>
+            Per-day settings{overriddenDays.length ? ` (Day ${overriddenDays.join(', ')})` : ''}
+          </summary>
+          <div className="row" style={{ alignItems: 'center', marginTop: 6 }}>
+            <select value={day} onChange={(e) => setOverrideDay(Number(e.target.value))} title="Day">
+              {Array.from({ length: numberOfDays }).map((_, i) => (
+                <option key={i + 1} value={i + 1}>Day {i + 1}{value.dayOverrides?.[i + 1] ? ' *' : ''}</option>
+              ))}
+            </select>
+            <button onClick={() => setOverride({ dayStartMin: undefined, dayEndMin: undefined, breakIntervalMin: undefined, breakDurationMin: undefined, lunchTargetMin: undefined, lunchDurationMin: undefined })}>
+              Use global
+            </button>
+          </div>
+          <div className="grid-2">
+            <label>
+              Start Time
+              <input
+                type="time"
+                value={override.dayStartMin != null ? formatMin24(override.dayStartMin) : ''}
+                onChange={(e) => setOverride({ dayStartMin: parseTimeToMin(e.target.value) ?? undefined })}
+              />
+            </label>
+            <label>
+              End Time
+              <input
+                type="time"
+                value={override.dayEndMin != null ? formatMin24(override.dayEndMin) : ''}
+                onChange={(e) => setOverride({ dayEndMin: parseTimeToMin(e.target.value) ?? undefined })}
+              />
+            </label>
+            <label>
+              Break Interval (min)
+              <input
+                type="number"
+                min={0}
+                step={5}
+                placeholder={value.breakIntervalMin != null ? String(value.breakIntervalMin) : ''}
+                value={override.breakIntervalMin ?? ''}
+                onChange={(e) => setOverride({ breakIntervalMin: e.target.value ? Number(e.target.value) : undefined })}
+              />
+            </label>
+            <label>
+              Break Duration (min)
+              <input
+                type="number"
+                min={0}
+                step={5}
+                placeholder={value.breakDurationMin != null ? String(value.breakDurationMin) : ''}
+                value={override.breakDurationMin ?? ''}
+                onChange={(e) => setOverride({ breakDurationMin: e.target.value ? Number(e.target.value) : undefined })}
+              />
+            </label>
+            <label>
+              Lunch Around
+              <input
+                type="time"
+                value={override.lunchTargetMin != null ? formatMin24(override.lunchTargetMin) : ''}
+                onChange={(e) => setOverride({ lunchTargetMin: parseTimeToMin(e.target.value) ?? undefined })}
+              />
+            </label>
+            <label>
+              Lunch Duration (min)
+              <input
+                type="number"
+                min={0}
+                step={5}
+                placeholder={value.lunchDurationMin != null ? String(value.lunchDurationMin) : ''}
+                value={override.lunchDurationMin ?? ''}
+                onChange={(e) => setOverride({ lunchDurationMin: e.target.value ? Number(e.target.value) : undefined })}
+              />
+            </label>
+          </div>
+          <div style={{ color: 'var(--muted)', fontSize: 12, marginTop: 4 }}>Leave a field empty to use the global value; 0 disables breaks or lunch for this day.</div>
+        </details>
+      )}
       <div className="row" style={{ marginTop: 8, alignItems: 'center', gap: 8 }}>
         <button onClick={onApply}>Update</button>
+        {onAutoFit && <button onClick={onAutoFit} title="Shorten or lengthen flexible activities so each day ends on time">Auto-fit…</button>}
+        {onCutList && <button onClick={onCutList} title="Propose optional activities to drop or park when a day runs long">Cut list…</button>}
         {isDirty ? <span style={{ color: '#a16207' }} title="Changes not yet applied">• Pending changes</span> : <span style={{ color: '#6b7280' }}>Up to date</span>}
         <label style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 6 }}>
           <input type="checkbox" checked={!!autoApplyEnabled} onChange={(e) => onToggleAutoApply?.(e.target.checked)} />
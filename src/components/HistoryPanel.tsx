@@ -0,0 +1,45 @@
+import React from 'react';
+import type { AgendaHistory } from '@utils/storage';
+
+interface Props {
+  history: AgendaHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (position: number) => void; // number of changes applied after the jump
+}
+
+// Browsable undo/redo timeline. The newest change is at the top; undone changes stay
+// listed (dimmed) until a new edit replaces them, and any entry can be jumped to.
+const HistoryPanel: React.FC<Props> = ({ history, onUndo, onRedo, onJump }) => {
+  const { past, future } = history;
+  // Chronological list of changes: applied ones, then undone ones in redo order
+  const changes = [...past, ...future.slice().reverse()];
+  const position = past.length;
+
+  return (
+    <fieldset className="panel">
+      <legend>History</legend>
+      <div className="row">
+        <button onClick={onUndo} disabled={!past.length} title="Undo (Ctrl/Cmd+Z)">Undo</button>
+        <button onClick={onRedo} disabled={!future.length} title="Redo (Ctrl/Cmd+Shift+Z or Ctrl+Y)">Redo</button>
+      </div>
+      <ol className="history-list">
+        {changes
+          .map((entry, i) => ({ entry, i }))
+          .reverse()
+          .map(({ entry, i }) => (
+            <li key={`${entry.at}-${i}`} className={i + 1 === position ? 'current' : i + 1 > position ? 'undone' : ''}>
+              <button onClick={() => onJump(i + 1)} title={new Date(entry.at).toLocaleString()}>
+                {entry.label}
+              </button>
+            </li>
+          ))}
+        <li className={position === 0 ? 'current' : ''}>
+          <button onClick={() => onJump(0)}>{changes.length ? 'Earliest saved state' : 'No changes yet'}</button>
+        </li>
+      </ol>
+    </fieldset>
+  );
+};
+
+export default HistoryPanel;
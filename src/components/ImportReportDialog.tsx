@@ -0,0 +1,48 @@
+import React from 'react';
+import Modal from './Modal';
+import type { ImportReport } from '@utils/validate';
+
+interface Props {
+  report: ImportReport;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const SEVERITY_LABEL = { error: 'Error', repaired: 'Repaired', warning: 'Note' } as const;
+
+// Per-item report of problems found in an imported file, shown before the import is applied.
+// Rejected files (any error) can only be dismissed.
+const ImportReportDialog: React.FC<Props> = ({ report, onApply, onCancel }) => {
+  const rejected = !report.state;
+  return (
+    <Modal
+      title={rejected ? 'Import rejected' : 'Review import'}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel}>{rejected ? 'Close' : 'Cancel'}</button>
+          {!rejected && <button className="primary" onClick={onApply}>Import anyway</button>}
+        </>
+      }
+    >
+      <p>
+        {rejected
+          ? 'This file cannot be imported:'
+          : `This file can be imported after ${report.issues.filter((i) => i.severity === 'repaired').length} repair(s):`}
+      </p>
+      <table className="report-table">
+        <tbody>
+          {report.issues.map((issue, i) => (
+            <tr key={i} className={`issue ${issue.severity}`}>
+              <td>{SEVERITY_LABEL[issue.severity]}</td>
+              <td>{issue.item}</td>
+              <td>{issue.message}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </Modal>
+  );
+};
+
+export default ImportReportDialog;
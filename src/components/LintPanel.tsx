@@ -0,0 +1,38 @@
+import React from 'react';
+import type { LintIssue } from '@utils/lint';
+
+interface Props {
+  issues: LintIssue[];
+  onSelect: (issue: LintIssue) => void; // scroll to and highlight the issue's row or section
+}
+
+// Problems found in the schedule, errors first. Each entry jumps to the row or section to fix.
+const LintPanel: React.FC<Props> = ({ issues, onSelect }) => {
+  const errors = issues.filter((i) => i.severity === 'error').length;
+
+  return (
+    <fieldset className="panel">
+      <legend>Checks{issues.length ? ` (${issues.length})` : ''}</legend>
+      {issues.length === 0 ? (
+        <p className="hint">No problems found.</p>
+      ) : (
+        <>
+          <p className="hint">
+            {errors} error{errors === 1 ? '' : 's'}, {issues.length - errors} warning{issues.length - errors === 1 ? '' : 's'}
+          </p>
+          <ul className="lint-list">
+            {issues.map((issue) => (
+              <li key={issue.id} className={issue.severity}>
+                <button onClick={() => onSelect(issue)} title="Show in agenda">
+                  {issue.message}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </fieldset>
+  );
+};
+
+export default LintPanel;
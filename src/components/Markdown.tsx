@@ -0,0 +1,61 @@
+import React from 'react';
+import { MdInline, parseMarkdown } from '@utils/markdown';
+
+interface Props {
+  text: string;
+  className?: string;
+}
+
+// Renders details/notes written in the Markdown subset of utils/markdown.ts (no raw HTML)
+const Markdown: React.FC<Props> = ({ text, className }) => {
+  const blocks = React.useMemo(() => parseMarkdown(text), [text]);
+  return (
+    <div className={className ? `markdown ${className}` : 'markdown'}>
+      {blocks.map((b, i) => {
+        if (b.type === 'heading') {
+          const Tag = `h${b.level + 2}` as 'h3' | 'h4' | 'h5';
+          return <Tag key={i}><Inline nodes={b.content} /></Tag>;
+        }
+        if (b.type === 'list') {
+          const items = b.items.map((item, j) => <li key={j}><Inline nodes={item} /></li>);
+          return b.ordered ? <ol key={i} start={b.start}>{items}</ol> : <ul key={i}>{items}</ul>;
+        }
+        return (
+          <p key={i}>
+            {b.lines.map((line, j) => (
+              <React.Fragment key={j}>
+                {j > 0 && <br />}
+                <Inline nodes={line} />
+              </React.Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+const Inline: React.FC<{ nodes: MdInline[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((n, i) => {
+      switch (n.type) {
+        case 'text':
+          return <React.Fragment key={i}>{n.text}</React.Fragment>;
+        case 'code':
+          return <code key={i}>{n.text}</code>;
+        case 'strong':
+          return <strong key={i}><Inline nodes={n.children} /></strong>;
+        case 'em':
+          return <em key={i}><Inline nodes={n.children} /></em>;
+        case 'link':
+          return n.href ? (
+            <a key={i} href={n.href} target="_blank" rel="noopener noreferrer"><Inline nodes={n.children} /></a>
+          ) : (
+            <Inline key={i} nodes={n.children} />
+          );
+      }
+    })}
+  </>
+);
+
+export default Markdown;
@@ -0,0 +1,92 @@
+import React from 'react';
+import Modal from './Modal';
+import { ComputedRow, Section } from '../models';
+import { buildMaterialsManifest, exportManifestToText, ManifestFormat } from '@utils/attachments';
+import { downloadText } from '@utils/storage';
+import { formatRange } from '@utils/time';
+import { AttachmentLink } from './AttachmentList';
+
+interface Props {
+  sections: Section[];
+  computed: ComputedRow[];
+  dayDate?: (dayNumber: number) => string | null;
+  onClose: () => void;
+}
+
+// Materials manifest: every attached file with the activities and times it is needed for,
+// shown as a table and exported as Markdown or plain text.
+const MaterialsDialog: React.FC<Props> = ({ sections, computed, dayDate, onClose }) => {
+  const [format, setFormat] = React.useState<ManifestFormat>('markdown');
+  const [copied, setCopied] = React.useState(false);
+
+  const entries = React.useMemo(() => buildMaterialsManifest(computed, sections), [computed, sections]);
+  const text = React.useMemo(() => exportManifestToText(entries, { format, dayDate }), [entries, format, dayDate]);
+  React.useEffect(() => setCopied(false), [text]);
+  const multiDay = entries.some((e) => e.uses.some((u) => u.dayNumber !== 1));
+
+  const onCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch {
+      alert('Could not access the clipboard. Use Download instead.');
+    }
+  };
+
+  return (
+    <Modal
+      title="Materials manifest"
+      onClose={onClose}
+      footer={
+        <>
+          <button onClick={onClose}>Close</button>
+          <button disabled={!entries.length} onClick={() => downloadText(format === 'markdown' ? 'materials.md' : 'materials.txt', text, format === 'markdown' ? 'text/markdown' : 'text/plain')}>
+            Download
+          </button>
+          <button className="primary" disabled={!entries.length} onClick={onCopy}>{copied ? 'Copied ✓' : 'Copy to clipboard'}</button>
+        </>
+      }
+    >
+      <div className="row" style={{ alignItems: 'center', gap: 12 }}>
+        <label>
+          Export as{' '}
+          <select value={format} onChange={(e) => setFormat(e.target.value as ManifestFormat)}>
+            <option value="markdown">Markdown table</option>
+            <option value="text">Plain-text list</option>
+          </select>
+        </label>
+      </div>
+      {entries.length === 0 ? (
+        <p className="hint">No files are attached to scheduled activities. Add them in the Files column.</p>
+      ) : (
+        <table className="report-table">
+          <thead>
+            <tr>
+              <th>File</th>
+              <th>Needed for</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((e) => (
+              <tr key={e.path}>
+                <td>
+                  <AttachmentLink file={{ id: e.path, name: e.name, path: e.path }} />
+                  {e.name !== e.path && <div className="hint">{e.path}</div>}
+                </td>
+                <td>
+                  {e.uses.map((u) => (
+                    <div key={u.activity.id}>
+                      {multiDay && `Day ${u.dayNumber} `}{formatRange(u.startMin, u.endMin)} {u.activity.title || '(untitled)'} <span className="hint">({u.section.name})</span>
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Modal>
+  );
+};
+
+export default MaterialsDialog;
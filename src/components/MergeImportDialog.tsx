@@ -0,0 +1,97 @@
+import React from 'react';
+import Modal from './Modal';
+import { Activity, Person, Section } from '../models';
+import { DuplicateMode, MergeOutcome, MergePlan, planMerge, SectionMergeMode } from '@utils/merge';
+
+interface Props {
+  current: { sections: Section[]; activities: Activity[]; people?: Person[] };
+  incoming: { sections: Section[]; activities: Activity[]; people?: Person[] };
+  numberOfDays: number;
+  onApply: (plan: MergePlan) => void;
+  onCancel: () => void;
+}
+
+const OUTCOME_LABEL: Record<MergeOutcome, string> = { added: 'Add', updated: 'Update', skipped: 'Skip' };
+
+// Options and a summary of what a merge import will add, update or skip before anything changes.
+const MergeImportDialog: React.FC<Props> = ({ current, incoming, numberOfDays, onApply, onCancel }) => {
+  const [sectionMode, setSectionMode] = React.useState<SectionMergeMode>('match');
+  const [duplicateMode, setDuplicateMode] = React.useState<DuplicateMode>('skip');
+  const [targetDay, setTargetDay] = React.useState<number | undefined>(undefined);
+
+  const plan = React.useMemo(
+    () => planMerge(current, incoming, { sectionMode, duplicateMode, targetDay }),
+    [current, incoming, sectionMode, duplicateMode, targetDay],
+  );
+  const count = (outcome: MergeOutcome) => plan.items.filter((i) => i.outcome === outcome).length;
+  const changes = count('added') + count('updated') + plan.addedSections.length + plan.addedPeople.length;
+
+  return (
+    <Modal
+      title="Merge import"
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel}>Cancel</button>
+          <button className="primary" disabled={!changes} onClick={() => onApply(plan)}>Merge</button>
+        </>
+      }
+    >
+      <div className="grid-2">
+        <label>
+          Sections
+          <select value={sectionMode} onChange={(e) => setSectionMode(e.target.value as SectionMergeMode)}>
+            <option value="match">Match existing sections by name</option>
+            <option value="append">Always add as new sections</option>
+          </select>
+        </label>
+        <label>
+          Activities that already exist
+          <select value={duplicateMode} onChange={(e) => setDuplicateMode(e.target.value as DuplicateMode)}>
+            <option value="skip">Skip</option>
+            <option value="update">Update with imported values</option>
+          </select>
+        </label>
+        <label>
+          Place on
+          <select value={targetDay ?? ''} onChange={(e) => setTargetDay(e.target.value ? Number(e.target.value) : undefined)}>
+            <option value="">Days from the file</option>
+            {Array.from({ length: numberOfDays + 1 }).map((_, i) => (
+              <option key={i} value={i + 1}>Day {i + 1}{i === numberOfDays ? ' (new)' : ''}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="hint">Existing activities are matched by id, or by title within the same section. Day settings are not changed by a merge.</p>
+
+      <h3 className="modal-subtitle">
+        {count('added')} to add, {count('updated')} to update, {count('skipped')} skipped
+        {plan.addedSections.length ? `; ${plan.addedSections.length} new section${plan.addedSections.length === 1 ? '' : 's'}` : ''}
+      </h3>
+      {plan.addedSections.length > 0 && <p className="hint">New sections: {plan.addedSections.join(', ')}</p>}
+      {plan.addedPeople.length > 0 && <p className="hint">New people: {plan.addedPeople.join(', ')}</p>}
+      <table className="report-table">
+        <thead>
+          <tr>
+            <th>Result</th>
+            <th>Activity</th>
+            <th>Section</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.items.map((item, i) => (
+            <tr key={i} className={`merge ${item.outcome}`}>
+              <td>{OUTCOME_LABEL[item.outcome]}</td>
+              <td>{item.title}</td>
+              <td>{item.section}</td>
+              <td>{item.reason}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </Modal>
+  );
+};
+
+export default MergeImportDialog;
@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface Props {
+  title: string;
+  onClose: () => void;
+  footer?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+// Minimal modal dialog: backdrop, title, scrollable body and an optional footer for actions.
+// Escape or a click on the backdrop closes it.
+const Modal: React.FC<Props> = ({ title, onClose, footer, children }) => {
+  React.useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" role="dialog" aria-label={title} onClick={(e) => e.stopPropagation()}>
+        <h2 className="modal-title">{title}</h2>
+        <div className="modal-body">{children}</div>
+        {footer && <div className="modal-footer">{footer}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default Modal;
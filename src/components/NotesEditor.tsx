@@ -0,0 +1,109 @@
+import React from 'react';
+import { Activity } from '../models';
+import Markdown from './Markdown';
+
+type NotesField = 'details' | 'notes';
+
+interface Props {
+  activity: Activity;
+  onChange: (next: Activity) => void;
+  onCommit?: () => void;
+  onClose: () => void;
+}
+
+const FIELDS: { field: NotesField; label: string; placeholder: string }[] = [
+  { field: 'details', label: 'Details', placeholder: 'What the activity covers, shown to attendees' },
+  { field: 'notes', label: 'Facilitator notes', placeholder: 'Script, cues and reminders for whoever runs it' },
+];
+
+// Markup the toolbar buttons add around the selection (or at the start of each selected line)
+const TOOLS: { label: string; title: string; wrap?: [string, string]; prefix?: string }[] = [
+  { label: 'B', title: 'Bold', wrap: ['**', '**'] },
+  { label: 'I', title: 'Italic', wrap: ['*', '*'] },
+  { label: '•', title: 'Bulleted list', prefix: '- ' },
+  { label: '1.', title: 'Numbered list', prefix: '1. ' },
+  { label: '🔗', title: 'Link', wrap: ['[', '](https://)'] },
+];
+
+// Side panel for an activity's details and notes: Markdown text with a small toolbar and a live
+// preview below each field. Edits apply as you type; Escape or × closes it.
+const NotesEditor: React.FC<Props> = ({ activity, onChange, onCommit, onClose }) => {
+  const [preview, setPreview] = React.useState(true);
+  const refs = React.useRef<Record<NotesField, HTMLTextAreaElement | null>>({ details: null, notes: null });
+
+  React.useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const applyTool = (field: NotesField, tool: (typeof TOOLS)[number]) => {
+    const el = refs.current[field];
+    const text = activity[field] ?? '';
+    const start = el?.selectionStart ?? text.length;
+    const end = el?.selectionEnd ?? text.length;
+    let next: string;
+    let caret: [number, number];
+    if (tool.wrap) {
+      const [before, after] = tool.wrap;
+      next = text.slice(0, start) + before + text.slice(start, end) + after + text.slice(end);
+      caret = [start + before.length, end + before.length];
+    } else {
+      // Prefix every line the selection touches
+      const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+      const lines = text.slice(lineStart, end).split('\n');
+      const block = lines.map((l, i) => (tool.prefix === '1. ' ? `${i + 1}. ` : tool.prefix) + l).join('\n');
+      next = text.slice(0, lineStart) + block + text.slice(end);
+      caret = [lineStart + block.length, lineStart + block.length];
+    }
+    onChange({ ...activity, [field]: next });
+    onCommit?.();
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(...caret);
+    });
+  };
+
+  return (
+    <aside className="notes-editor" aria-label={`Notes for ${activity.title || 'activity'}`}>
+      <header>
+        <h2>{activity.title || '(untitled)'}</h2>
+        <label className="notes-editor-toggle">
+          <input type="checkbox" checked={preview} onChange={(e) => setPreview(e.target.checked)} />
+          Preview
+        </label>
+        <button onClick={onClose} aria-label="Close" title="Close (Esc)">×</button>
+      </header>
+      {FIELDS.map(({ field, label, placeholder }) => (
+        <section key={field}>
+          <div className="notes-editor-label">
+            <h3>{label}</h3>
+            <span className="notes-editor-tools">
+              {TOOLS.map((tool) => (
+                <button key={tool.title} title={tool.title} aria-label={tool.title} onMouseDown={(e) => e.preventDefault()} onClick={() => applyTool(field, tool)}>
+                  {tool.label}
+                </button>
+              ))}
+            </span>
+          </div>
+          <textarea
+            ref={(el) => {
+              refs.current[field] = el;
+            }}
+            value={activity[field] ?? ''}
+            placeholder={placeholder}
+            rows={field === 'notes' ? 12 : 6}
+            onChange={(e) => onChange({ ...activity, [field]: e.target.value })}
+            onBlur={onCommit}
+          />
+          {preview && (activity[field] ?? '').trim() && <Markdown className="notes-editor-preview" text={activity[field] ?? ''} />}
+        </section>
+      ))}
+      <p className="hint">**bold**, *italic*, `code`, - lists, 1. numbered lists, # headings and [links](https://…)</p>
+    </aside>
+  );
+};
+
+export default NotesEditor;
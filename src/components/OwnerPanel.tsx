@@ -0,0 +1,73 @@
+import React from 'react';
+import type { OwnerSlot, OwnerSummary } from '@utils/owners';
+import { formatMin } from '@utils/time';
+
+interface Props {
+  summaries: OwnerSummary[];
+  ownerFilter: string | null;
+  onFilterChange: (owner: string | null) => void;
+  multiDay?: boolean; // prefix slots with their day
+}
+
+// Per-owner summary (sessions, total minutes, first/last slot) with a filter that limits the
+// agenda to one owner and a link to that owner's printable run sheet.
+const OwnerPanel: React.FC<Props> = ({ summaries, ownerFilter, onFilterChange, multiDay }) => {
+  const slot = (s: OwnerSlot, at: 'start' | 'end') =>
+    `${multiDay ? `Day ${s.dayNumber} ` : ''}${formatMin(at === 'start' ? s.startMin : s.endMin)}`;
+
+  const openRunSheet = (owner: string) => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('print', '1');
+    url.searchParams.set('owner', owner);
+    window.open(url.toString(), '_blank');
+  };
+
+  return (
+    <fieldset className="panel">
+      <legend>Owners</legend>
+      <div className="row">
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 8 }}>
+          Show
+          <select value={ownerFilter ?? ''} onChange={(e) => onFilterChange(e.target.value || null)}>
+            <option value="">All owners</option>
+            {summaries.map((s) => (
+              <option key={s.owner} value={s.owner}>{s.owner}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {summaries.length ? (
+        <table className="owner-table">
+          <thead>
+            <tr>
+              <th>Owner</th>
+              <th>Sessions</th>
+              <th>Total</th>
+              <th>First – Last</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map((s) => (
+              <tr key={s.owner} className={ownerFilter?.toLowerCase() === s.owner.toLowerCase() ? 'current' : ''}>
+                <td>
+                  <button className="link" onClick={() => onFilterChange(s.owner)}>{s.owner}</button>
+                </td>
+                <td>{s.count}</td>
+                <td>{s.totalMin} min</td>
+                <td title={`${s.first.title} … ${s.last.title}`}>{slot(s.first, 'start')} – {slot(s.last, 'end')}</td>
+                <td>
+                  <button onClick={() => openRunSheet(s.owner)} title="Open a printable run sheet for this owner">Run sheet</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="hint">Fill in the Owner column to see per-owner totals.</p>
+      )}
+    </fieldset>
+  );
+};
+
+export default OwnerPanel;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Person } from '../models';
+import { personKey, splitOwners } from '@utils/owners';
+import { findPerson, joinOwners } from '@utils/people';
+
+export const PEOPLE_DATALIST_ID = 'people-names';
+
+interface Props {
+  value: string; // Activity.owner
+  people: Person[];
+  onChange: (owner: string) => void;
+  onCommit?: () => void;
+}
+
+// Owner cell: one chip per co-owner plus a text box that autocompletes from the people list.
+// Enter, comma or leaving the box adds the typed name; Backspace in an empty box removes the last chip.
+const OwnerPicker: React.FC<Props> = ({ value, people, onChange, onCommit }) => {
+  const [draft, setDraft] = React.useState('');
+  const owners = splitOwners(value, people);
+
+  const setOwners = (names: string[]) => {
+    onChange(joinOwners(names, people));
+    onCommit?.();
+  };
+  const addDraft = () => {
+    const name = draft.trim();
+    setDraft('');
+    if (name) setOwners([...owners, name]);
+    else onCommit?.();
+  };
+
+  return (
+    <div className="owner-picker">
+      {owners.map((name) => {
+        const person = findPerson(people, name);
+        return (
+          <span
+            key={personKey(name)}
+            className={person ? 'owner-chip' : 'owner-chip unlisted'}
+            style={person?.color ? { borderColor: person.color, background: `${person.color}1a` } : undefined}
+            title={person ? [person.role, person.email].filter(Boolean).join(' · ') || person.name : 'Not in the people list'}
+          >
+            {name}
+            <button onClick={() => setOwners(owners.filter((o) => o !== name))} aria-label={`Remove ${name}`}>×</button>
+          </span>
+        );
+      })}
+      <input
+        className="inline"
+        list={PEOPLE_DATALIST_ID}
+        value={draft}
+        placeholder={owners.length ? '' : 'Add owner'}
+        onChange={(e) => {
+          // A comma (typed or pasted) ends the current name
+          if (e.target.value.includes(',')) {
+            const parts = e.target.value.split(',');
+            setDraft(parts.pop() ?? '');
+            setOwners([...owners, ...parts.map((p) => p.trim()).filter(Boolean)]);
+          } else {
+            setDraft(e.target.value);
+          }
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            addDraft();
+          } else if (e.key === 'Backspace' && !draft && owners.length) {
+            setOwners(owners.slice(0, -1));
+          }
+        }}
+        onBlur={addDraft}
+      />
+    </div>
+  );
+};
+
+export default OwnerPicker;
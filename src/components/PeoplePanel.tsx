@@ -0,0 +1,94 @@
+import React from 'react';
+import { Person } from '../models';
+import { findPerson } from '@utils/people';
+
+interface Props {
+  people: Person[];
+  unlisted: string[]; // owner names used in activities but missing from the list
+  onAdd: (name: string) => void;
+  onAddUnlisted: () => void;
+  onChange: (next: Person) => void;
+  onRename: (id: string, name: string) => void; // also rewrites the name in every activity
+  onRemove: (id: string) => void;
+}
+
+// The agenda's people list: name, role, email and chip color for each owner.
+const PeoplePanel: React.FC<Props> = ({ people, unlisted, onAdd, onAddUnlisted, onChange, onRename, onRemove }) => {
+  const [newName, setNewName] = React.useState('');
+
+  const add = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (findPerson(people, name)) {
+      alert(`"${name}" is already in the people list.`);
+      return;
+    }
+    onAdd(name);
+    setNewName('');
+  };
+
+  return (
+    <fieldset className="panel">
+      <legend>People</legend>
+      <div className="row">
+        <input value={newName} placeholder="Name" onChange={(e) => setNewName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && add()} />
+        <button onClick={add}>Add</button>
+      </div>
+      {unlisted.length > 0 && (
+        <p className="hint">
+          {unlisted.length} owner{unlisted.length === 1 ? ' is' : 's are'} not listed: {unlisted.join(', ')}{' '}
+          <button className="link" onClick={onAddUnlisted}>Add all</button>
+        </p>
+      )}
+      <ul className="people-list">
+        {people.map((p) => (
+          <PersonRow key={p.id} person={p} people={people} onChange={onChange} onRename={onRename} onRemove={onRemove} />
+        ))}
+      </ul>
+    </fieldset>
+  );
+};
+
+// Name edits are applied on blur, so the rename reaches the activities once per edit
+const PersonRow: React.FC<{
+  person: Person;
+  people: Person[];
+  onChange: (next: Person) => void;
+  onRename: (id: string, name: string) => void;
+  onRemove: (id: string) => void;
+}> = ({ person, people, onChange, onRename, onRemove }) => {
+  const [name, setName] = React.useState(person.name);
+  React.useEffect(() => setName(person.name), [person.name]);
+
+  const commitName = () => {
+    const next = name.trim();
+    if (!next || next === person.name) {
+      setName(person.name);
+      return;
+    }
+    const clash = findPerson(people, next);
+    if (clash && clash.id !== person.id) {
+      alert(`"${next}" is already in the people list.`);
+      setName(person.name);
+      return;
+    }
+    onRename(person.id, next);
+  };
+
+  return (
+    <li>
+      <input
+        type="color"
+        value={person.color ?? '#6b7280'}
+        onChange={(e) => onChange({ ...person, color: e.target.value })}
+        title="Chip color"
+      />
+      <input className="person-name" value={name} onChange={(e) => setName(e.target.value)} onBlur={commitName} aria-label="Name" />
+      <input value={person.role ?? ''} placeholder="Role" onChange={(e) => onChange({ ...person, role: e.target.value || undefined })} aria-label="Role" />
+      <input type="email" value={person.email ?? ''} placeholder="Email" onChange={(e) => onChange({ ...person, email: e.target.value || undefined })} aria-label="Email" />
+      <button className="danger" onClick={() => onRemove(person.id)} title="Remove from list (activities keep the name)" aria-label="Remove">🗑️</button>
+    </li>
+  );
+};
+
+export default PeoplePanel;
@@ -1,76 +1,162 @@
 import React from 'react';
-import { ComputedRow, Section } from '../models';
-import { formatMin } from '@utils/time';
+import { ComputedRow, Person, Section } from '../models';
+import { formatMin, formatMinWithOffset } from '@utils/time';
+import { formatDate, timeZoneLabel } from '@utils/dates';
+import type { ZonedTime } from '@utils/dates';
+import { hasOwner, personKey, summarizeOwners } from '@utils/owners';
+import { groupSectionsByTrack } from '@utils/schedule';
+import { describeBudget } from '@utils/budgets';
+import type { BudgetSummary } from '@utils/budgets';
+import { activityAttachments } from '@utils/attachments';
+import { AttachmentLink } from './AttachmentList';
+import Markdown from './Markdown';
 
 interface Props {
   sections: Section[];
   computed: ComputedRow[];
+  dayDate?: (dayNumber: number) => string | null; // calendar date (YYYY-MM-DD) for a day, if known
+  autoPrint?: boolean; // open the print dialog on mount (default true)
+  owner?: string | null; // limit to one owner's activities (a facilitator run sheet)
+  displayZones?: string[]; // extra timezones, each printed as its own time column
+  convertTime?: ((dayNumber: number, min: number) => ZonedTime[]) | null;
+  budgets?: BudgetSummary; // planned vs. budget totals (not shown on run sheets)
+  people?: Person[]; // registry, so names containing "&" or " and " match whole
 }
 
 // Print-friendly, read-only view of the agenda.
 // Renders a compact, monochrome table grouped by section, suitable for paper or PDF export.
-const PrintView: React.FC<Props> = ({ sections, computed }) => {
+// With an owner, only that person's activities are listed, headed by their totals.
+const PrintView: React.FC<Props> = ({ sections, computed, dayDate, autoPrint = true, owner, displayZones = [], convertTime, budgets, people = [] }) => {
   React.useEffect(() => {
+    if (!autoPrint) return;
     // Slight delay to ensure layout is painted before opening print dialog
     const id = setTimeout(() => window.print(), 300);
     return () => clearTimeout(id);
-  }, []);
+  }, [autoPrint]);
 
-  const orderedSections = sections.slice().sort((a, b) => a.order - b.order);
+  const rows = owner ? computed.filter((r) => r.type === 'activity' && !r.activity.isSystem && hasOwner(r.activity, owner, people)) : computed;
+  const orderedSections = sections
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .filter((s) => !owner || rows.some((r) => r.sectionId === s.id));
+  const summary = owner ? summarizeOwners(rows, sections, people).find((s) => personKey(s.owner) === personKey(owner)) : undefined;
+  const multiDay = new Set(sections.map((s) => s.dayNumber ?? 1)).size > 1;
+  const dayBudgets = owner || !budgets ? [] : Object.entries(budgets.days).filter(([, b]) => b.budgetMin != null);
+
+  // The row's time in each display timezone, with day rollover
+  const zoneCells = (section: Section, row: ComputedRow) => {
+    if (!convertTime) return null;
+    const starts = convertTime(section.dayNumber ?? 1, row.startMin);
+    const ends = convertTime(section.dayNumber ?? 1, row.endMin);
+    return starts.map((s, i) => (
+      <td key={s.timeZone}>{formatMinWithOffset(s.min, s.dayOffset)} - {formatMinWithOffset(ends[i].min, ends[i].dayOffset)}</td>
+    ));
+  };
+
+  // Sections in parallel tracks are printed side by side
+  const renderSection = (section: Section) => (
+    <section key={section.id} className={`print-section day-${section.dayNumber ?? 1}`}>
+      <h2 className="print-section-title">
+        {section.name}
+        {dayDate?.(section.dayNumber ?? 1) && <span className="print-section-date"> — {formatDate(dayDate(section.dayNumber ?? 1)!)}</span>}
+        {!owner && budgets?.sections[section.id]?.budgetMin != null && (
+          <span className="print-section-budget"> ({describeBudget(budgets.sections[section.id])})</span>
+        )}
+      </h2>
+      <table className="print-table">
+        <thead>
+          <tr>
+            <th style={{ width: 140 }}>Time (Start - End)</th>
+            {convertTime && displayZones.map((tz) => (
+              <th key={tz} style={{ width: 140 }}>{timeZoneLabel(tz)}</th>
+            ))}
+            <th style={{ width: 70 }}>Slides</th>
+            <th style={{ width: 220 }}>Item</th>
+            <th style={{ width: 220 }}>Description</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows
+            .filter((r) => r.sectionId === section.id)
+            .map((row) => {
+              if (row.type === 'activity') {
+                const a = row.activity;
+                return (
+                  <tr key={row.id}>
+                    <td>{formatMin(row.startMin)} - {formatMin(row.endMin)}</td>
+                    {zoneCells(section, row)}
+                    <td>{a.slideNumber ?? ''}</td>
+                    <td>
+                      <div className="print-title">{a.title}</div>
+                      <div className="print-sub">
+                        {[a.owner ? `Owner: ${a.owner}` : '', `${a.durationMin} min`].filter(Boolean).join(' — ')}
+                      </div>
+                      {activityAttachments(a).some((f) => f.path.trim()) && (
+                        <div className="print-sub print-files">
+                          Files:{' '}
+                          {activityAttachments(a).filter((f) => f.path.trim()).map((f, i) => (
+                            <React.Fragment key={f.id}>
+                              {i > 0 && ', '}
+                              <AttachmentLink file={f} />
+                            </React.Fragment>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td>
+                      {a.details?.trim() && <Markdown text={a.details} />}
+                      {a.notes?.trim() && <Markdown className="print-notes" text={a.notes} />}
+                    </td>
+                  </tr>
+                );
+              }
+
+              // Break / Lunch / Overflow rows
+              return (
+                <tr key={row.id} className={`print-computed ${row.type}`}>
+                  <td>{formatMin(row.startMin)} - {formatMin(row.endMin)}</td>
+                  {zoneCells(section, row)}
+                  <td colSpan={3}>
+                    <strong>{row.type === 'lunch' ? 'Lunch' : row.type === 'break' ? 'Break' : row.label}</strong>
+                  </td>
+                </tr>
+              );
+            })}
+        </tbody>
+      </table>
+    </section>
+  );
 
   return (
     <div className="print-container">
       <header className="print-header">
-        <h1>Agenda</h1>
+        <h1>{owner ? `Run sheet — ${owner}` : 'Agenda'}</h1>
+        {owner && (
+          <p className="print-summary">
+            {summary
+              ? `${summary.count} session${summary.count === 1 ? '' : 's'}, ${summary.totalMin} min total · first ${multiDay ? `Day ${summary.first.dayNumber} ` : ''}${formatMin(summary.first.startMin)}, last ends ${multiDay ? `Day ${summary.last.dayNumber} ` : ''}${formatMin(summary.last.endMin)}`
+              : 'No activities for this owner.'}
+          </p>
+        )}
+        {dayBudgets.map(([day, b]) => (
+          <p key={day} className="print-summary">Day {day}: {describeBudget(b)}</p>
+        ))}
       </header>
 
-      {orderedSections.map((section) => (
-        <section key={section.id} className={`print-section day-${section.dayNumber ?? 1}`}>
-          <h2 className="print-section-title">{section.name}</h2>
-          <table className="print-table">
-            <thead>
-              <tr>
-                <th style={{ width: 140 }}>Time (Start - End)</th>
-                <th style={{ width: 70 }}>Slides</th>
-                <th style={{ width: 220 }}>Item</th>
-                <th style={{ width: 220 }}>Description</th>
-              </tr>
-            </thead>
-            <tbody>
-              {computed
-                .filter((r) => r.sectionId === section.id)
-                .map((row) => {
-                  if (row.type === 'activity') {
-                    const a = row.activity;
-                    return (
-                      <tr key={row.id}>
-                        <td>{formatMin(row.startMin)} - {formatMin(row.endMin)}</td>
-                        <td>{a.slideNumber ?? ''}</td>
-                        <td>
-                          <div className="print-title">{a.title}</div>
-                          <div className="print-sub">
-                            {[a.owner ? `Owner: ${a.owner}` : '', `${a.durationMin} min`].filter(Boolean).join(' — ')}
-                          </div>
-                        </td>
-                        <td>{[a.details, a.notes].filter(Boolean).join(' — ')}</td>
-                      </tr>
-                    );
-                  }
-
-                  // Break / Lunch / Overflow rows
-                  return (
-                    <tr key={row.id} className={`print-computed ${row.type}`}>
-                      <td>{formatMin(row.startMin)} - {formatMin(row.endMin)}</td>
-                      <td colSpan={3}>
-                        <strong>{row.type === 'lunch' ? 'Lunch' : row.type === 'break' ? 'Break' : row.label}</strong>
-                      </td>
-                    </tr>
-                  );
-                })}
-            </tbody>
-          </table>
-        </section>
-      ))}
+      {groupSectionsByTrack(orderedSections).map((block) =>
+        block.lanes[0].track === null ? (
+          block.lanes[0].sections.map(renderSection)
+        ) : (
+          <div key={`tracks-${block.lanes[0].sections[0].id}`} className="print-tracks">
+            {block.lanes.map((lane) => (
+              <div key={lane.track} className="print-track">
+                <h2 className="print-track-title">{lane.track}</h2>
+                {lane.sections.map(renderSection)}
+              </div>
+            ))}
+          </div>
+        ),
+      )}
     </div>
   );
 };
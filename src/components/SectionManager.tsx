@@ -1,5 +1,6 @@
 import React from 'react';
 import { ID, Section } from '../models';
+import { formatDuration, parseDuration } from '@utils/time';
 
 interface Props {
   sections: Section[];
@@ -9,11 +10,19 @@ interface Props {
   onMoveUp?: (id: ID) => void;
   onMoveDown?: (id: ID) => void;
   onSetDay?: (id: ID, dayNumber: number) => void;
+  onSetTrack?: (id: ID, track: string) => void; // '' = no track
+  onSetBudget?: (id: ID, budgetMin: number | undefined) => void;
+  dayBudgets?: Record<number, number>;
+  onSetDayBudget?: (dayNumber: number, budgetMin: number | undefined) => void;
 }
 
 // Simple section manager: add, rename, and remove sections.
-const SectionManager: React.FC<Props> = ({ sections, onAdd, onRename, onRemove, onMoveUp, onMoveDown, onSetDay }) => {
+// Sections can be put in a track (room); consecutive sections in different tracks run in parallel.
+// Sections and days can have a time budget ("3h") to plan against.
+const SectionManager: React.FC<Props> = ({ sections, onAdd, onRename, onRemove, onMoveUp, onMoveDown, onSetDay, onSetTrack, onSetBudget, dayBudgets, onSetDayBudget }) => {
   const [name, setName] = React.useState('');
+  const tracks = Array.from(new Set(sections.map((s) => s.track).filter((t): t is string => !!t))).sort();
+  const days = Array.from(new Set(sections.map((s) => s.dayNumber ?? 1))).sort((a, b) => a - b);
 
   return (
     <fieldset className="panel">
@@ -43,22 +52,37 @@ const SectionManager: React.FC<Props> = ({ sections, onAdd, onRename, onRemove,
           .sort((a, b) => a.order - b.order)
           .map((s) => (
             <li key={s.id} className="section-item">
-              {/* Day selector before name, compact and unlabeled */}
-              <select
-                value={s.dayNumber ?? 1}
-                onChange={(e) => onSetDay && onSetDay(s.id, Number(e.target.value))}
-                style={{ width: 56, marginRight: 6 }}
-                title="Day"
-              >
-                {Array.from({ length: 10 }).map((_, i) => (
-                  <option key={i + 1} value={i + 1}>{i + 1}</option>
-                ))}
-              </select>
+              {/* Day selector before name, compact and unlabeled; the parking lot is not on a day */}
+              {s.parkingLot ? (
+                <span className="parking-label" title="Parked activities are not timed or printed">P</span>
+              ) : (
+                <select
+                  value={s.dayNumber ?? 1}
+                  onChange={(e) => onSetDay && onSetDay(s.id, Number(e.target.value))}
+                  style={{ width: 56, marginRight: 6 }}
+                  title="Day"
+                >
+                  {Array.from({ length: 10 }).map((_, i) => (
+                    <option key={i + 1} value={i + 1}>{i + 1}</option>
+                  ))}
+                </select>
+              )}
               <input
                 className="inline"
                 value={s.name}
                 onChange={(e) => onRename(s.id, e.target.value)}
               />
+              {onSetTrack && !s.parkingLot && (
+                <input
+                  className="inline track-input"
+                  list="section-tracks"
+                  value={s.track ?? ''}
+                  placeholder="Track"
+                  title="Track / room (sections in different tracks run in parallel)"
+                  onChange={(e) => onSetTrack(s.id, e.target.value)}
+                />
+              )}
+              {onSetBudget && !s.parkingLot && <BudgetInput value={s.budgetMin} onChange={(min) => onSetBudget(s.id, min)} title="Section budget, e.g. 3h or 90" />}
               {onMoveUp && <button onClick={() => onMoveUp(s.id)} title="Move up">↑</button>}
               {onMoveDown && <button onClick={() => onMoveDown(s.id)} title="Move down">↓</button>}
               <button className="danger" onClick={() => onRemove(s.id)} title="Remove" aria-label="Remove" style={{ width: 32 }}>
@@ -67,8 +91,54 @@ const SectionManager: React.FC<Props> = ({ sections, onAdd, onRename, onRemove,
             </li>
           ))}
       </ul>
+      {onSetDayBudget && (
+        <div className="row day-budgets">
+          {days.map((d) => (
+            <label key={d}>
+              Day {d} budget
+              <BudgetInput value={dayBudgets?.[d]} onChange={(min) => onSetDayBudget(d, min)} title={`Day ${d} budget, e.g. 7h`} />
+            </label>
+          ))}
+        </div>
+      )}
+      <datalist id="section-tracks">
+        {tracks.map((t) => (
+          <option key={t} value={t} />
+        ))}
+      </datalist>
     </fieldset>
   );
 };
 
+// Budget box: takes "3h", "2h30", "150" or "2:30"; cleared when emptied, invalid input reverts
+const BudgetInput: React.FC<{ value?: number; onChange: (min: number | undefined) => void; title: string }> = ({ value, onChange, title }) => {
+  const shown = value != null ? formatDuration(value) : '';
+  const [draft, setDraft] = React.useState(shown);
+  React.useEffect(() => setDraft(shown), [shown]);
+  const commit = () => {
+    if (!draft.trim()) {
+      if (value != null) onChange(undefined);
+      return;
+    }
+    const min = parseDuration(draft);
+    if (min != null && min > 0) {
+      if (min !== value) onChange(min);
+      setDraft(formatDuration(min));
+    } else {
+      setDraft(shown);
+    }
+  };
+  return (
+    <input
+      className="inline budget-input"
+      value={draft}
+      placeholder="Budget"
+      title={title}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+    />
+  );
+};
+
 export default SectionManager;
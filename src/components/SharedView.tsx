@@ -0,0 +1,80 @@
+import React from 'react';
+import PrintView from './PrintView';
+import { buildScheduleFromActivities } from '@utils/schedule';
+import { dateForDay } from '@utils/dates';
+import { summarizeBudgets } from '@utils/budgets';
+import { decodeState } from '@utils/share';
+import { addAgendaToLibrary, PersistedState } from '@utils/storage';
+
+interface Props {
+  encoded: string; // payload from the #share= hash
+}
+
+// Read-only viewer for a shared agenda link. Nothing is written to localStorage
+// unless the recipient explicitly saves a copy to their agendas.
+const SharedView: React.FC<Props> = ({ encoded }) => {
+  const [state, setState] = React.useState<PersistedState | null>(null);
+  const [error, setError] = React.useState(false);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    decodeState(encoded).then((decoded) => {
+      if (cancelled) return;
+      if (decoded) setState(decoded);
+      else setError(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [encoded]);
+
+  const computed = React.useMemo(
+    () => (state ? buildScheduleFromActivities(state.config, state.sections, state.activities) : []),
+    [state],
+  );
+
+  // Leave the share link for the recipient's own agendas
+  const openMyAgendas = () => {
+    window.location.href = window.location.pathname + window.location.search;
+  };
+
+  const onSaveCopy = () => {
+    if (!state) return;
+    const name = window.prompt('Save as agenda named:', 'Shared agenda');
+    if (!name || !name.trim()) return;
+    addAgendaToLibrary(name.trim(), { state: JSON.parse(JSON.stringify(state)) });
+    openMyAgendas();
+  };
+
+  if (error) {
+    return (
+      <div className="banner warning">
+        <span>This share link is invalid or incomplete.</span>
+        <button onClick={openMyAgendas}>Open my agendas</button>
+      </div>
+    );
+  }
+  if (!state) return <div className="banner">Loading shared agenda…</div>;
+
+  return (
+    <div>
+      <div className="banner shared-banner">
+        <span>Read-only shared agenda</span>
+        <span style={{ display: 'flex', gap: 8 }}>
+          <button onClick={onSaveCopy}>Save a copy to my agendas</button>
+          <button onClick={openMyAgendas}>Open my agendas</button>
+        </span>
+      </div>
+      <PrintView
+        sections={state.sections}
+        computed={computed}
+        dayDate={(day) => dateForDay(state.config, day)}
+        budgets={summarizeBudgets(state.sections, state.activities, state.config)}
+        people={'people' in state ? state.people : undefined}
+        autoPrint={false}
+      />
+    </div>
+  );
+};
+
+export default SharedView;
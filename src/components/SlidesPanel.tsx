@@ -0,0 +1,74 @@
+import React from 'react';
+import { Activity, ID } from '../models';
+import type { SlideReport } from '@utils/slides';
+import { formatSlideRanges } from '@utils/slides';
+
+interface Props {
+  report: SlideReport;
+  onSetDuration: (id: ID, durationMin: number) => void; // apply a pacing suggestion
+  onShift: (after: number, count: number) => void; // renumber ranges after inserting/removing slides
+}
+
+const title = (a: Activity) => a.title || '(untitled)';
+
+// Deck overview from the Slide # column: coverage, pacing suggestions and a renumbering tool.
+// Overlapping, missing and unreadable slides are listed in the Checks panel.
+const SlidesPanel: React.FC<Props> = ({ report, onSetDuration, onShift }) => {
+  const [after, setAfter] = React.useState('');
+  const [count, setCount] = React.useState('');
+
+  const shift = (sign: 1 | -1) => {
+    // Number('') is 0, so empty fields are rejected before converting
+    const a = after.trim() ? Number(after) : NaN;
+    const n = count.trim() ? Number(count) : NaN;
+    if (!Number.isInteger(a) || a < 0 || !Number.isInteger(n) || n <= 0) {
+      alert('Enter the slide number to insert after and how many slides.');
+      return;
+    }
+    onShift(a, sign * n);
+    setCount('');
+  };
+
+  return (
+    <fieldset className="panel">
+      <legend>Slides</legend>
+      {report.activities === 0 ? (
+        <p className="hint">No slide ranges yet. Enter them in the Slide # column, e.g. 12-14.</p>
+      ) : (
+        <p className="hint">
+          {report.slides} slide{report.slides === 1 ? '' : 's'} (1–{report.maxSlide}) across {report.activities} activit{report.activities === 1 ? 'y' : 'ies'}
+          {report.typicalPaceMin != null && `, typically ${report.typicalPaceMin.toFixed(1)} min per slide`}
+          {report.missing.length > 0 && `; missing ${formatSlideRanges(report.missing)}`}
+        </p>
+      )}
+      {report.advice.length > 0 && (
+        <ul className="slide-advice">
+          {report.advice.map((p) => (
+            <li key={p.activity.id}>
+              <span>
+                {title(p.activity)}: {p.slides} slides in {p.activity.durationMin} min ({p.paceMin.toFixed(1)} min/slide)
+              </span>
+              <button className="link" onClick={() => onSetDuration(p.activity.id, p.suggestedMin)} title="Set the duration to the typical pace">
+                Use {p.suggestedMin} min
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="row slide-shift">
+        <label>
+          After slide
+          <input type="number" min={0} value={after} onChange={(e) => setAfter(e.target.value)} />
+        </label>
+        <label>
+          Slides
+          <input type="number" min={1} value={count} onChange={(e) => setCount(e.target.value)} />
+        </label>
+        <button onClick={() => shift(1)} title="Shift later ranges up; a range spanning the point grows">Insert</button>
+        <button onClick={() => shift(-1)} title="Shift later ranges down; ranges losing slides shrink">Remove</button>
+      </div>
+    </fieldset>
+  );
+};
+
+export default SlidesPanel;
@@ -1,40 +1,107 @@
 import React from 'react';
-import { Activity, DayConfig, Section } from '../models';
-import { clearState, downloadJson, readFileAsText, exportActivitiesToCSV, importActivitiesFromCSV } from '@utils/storage';
+import { Activity, ComputedRow, DayConfig, Person, Section } from '../models';
+import { clearState, downloadJson, downloadText, readFileAsText, exportActivitiesToCSV } from '@utils/storage';
+import { parseCsv } from '@utils/csv';
+import type { PersistedState } from '@utils/storage';
+import { exportScheduleToICS } from '@utils/ics';
+import { buildShareUrl } from '@utils/share';
+import { validatePersistedState, ImportReport } from '@utils/validate';
+import ImportReportDialog from './ImportReportDialog';
+import CsvImportDialog from './CsvImportDialog';
+import MergeImportDialog from './MergeImportDialog';
+import TextExportDialog from './TextExportDialog';
+import MaterialsDialog from './MaterialsDialog';
+import type { MergePlan } from '@utils/merge';
+import { summarizeBudgets } from '@utils/budgets';
+import { dateForDay, displayZoneConverter, isValidTimeZone, localTimeZone, parseIsoDate } from '@utils/dates';
 import type { Injection } from '../models';
 
+type ImportPayload = { sections: Section[]; activities: Activity[]; config: DayConfig; injections?: Injection[]; people?: Person[] };
+
 interface Props {
   sections: Section[];
   activities: Activity[];
   config: DayConfig;
+  people?: Person[];
+  computed?: ComputedRow[];
   injections?: Injection[];
-  onImport: (payload: { sections: Section[]; activities: Activity[]; config: DayConfig; injections?: Injection[] }) => void;
+  onConfigChange?: (next: DayConfig) => void;
+  onImport: (payload: ImportPayload) => void;
+  onMerge?: (plan: MergePlan) => void;
   onClear: () => void;
 }
 
 // Controls to export/import agenda as JSON and clear saved data.
 // Export downloads a JSON snapshot; Import reads a file and passes parsed state upward.
-const StorageControls: React.FC<Props> = ({ sections, activities, config, injections, onImport, onClear }) => {
+const StorageControls: React.FC<Props> = ({ sections, activities, config, people, computed, injections, onConfigChange, onImport, onMerge, onClear }) => {
   const fileRef = React.useRef<HTMLInputElement | null>(null);
+  const [icsIncludeBreaks, setIcsIncludeBreaks] = React.useState(true);
+  // JSON import awaiting review because validation found problems
+  const [pendingReport, setPendingReport] = React.useState<ImportReport | null>(null);
+  // CSV text awaiting column mapping
+  const [pendingCsv, setPendingCsv] = React.useState<string | null>(null);
+  // Merge imports add to the current agenda instead of replacing it
+  const [importMode, setImportMode] = React.useState<'replace' | 'merge'>('replace');
+  const [showTextExport, setShowTextExport] = React.useState(false);
+  const [showMaterials, setShowMaterials] = React.useState(false);
+  const [pendingMerge, setPendingMerge] = React.useState<{ sections: Section[]; activities: Activity[]; people?: Person[] } | null>(null);
 
   const onExport = () => {
     // Bundle a shareable JSON snapshot
-    downloadJson('agenda-mover.json', { version: 2 as const, sections, activities, config, injections: injections ?? [] });
+    downloadJson('agenda-mover.json', { version: 2 as const, sections, activities, config, injections: injections ?? [], people: people ?? [] });
   };
 
   const onExportCSV = () => {
-    const csv = exportActivitiesToCSV(activities, sections);
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'agenda-mover.csv';
-    a.click();
-    setTimeout(() => URL.revokeObjectURL(url), 4000);
+    const csv = exportActivitiesToCSV(activities, sections, config, people);
+    downloadText('agenda-mover.csv', csv, 'text/csv');
+  };
+
+  // Calendar export needs a real date and timezone; ask for them when the agenda has none
+  const onExportICS = () => {
+    let startDate = config.startDate;
+    if (!startDate) {
+      const input = window.prompt('Event start date (YYYY-MM-DD):', '');
+      if (input == null) return;
+      if (!parseIsoDate(input.trim())) {
+        alert('Invalid date. Use the format YYYY-MM-DD.');
+        return;
+      }
+      startDate = input.trim();
+    }
+    let timeZone = config.timeZone;
+    if (!timeZone) {
+      const input = window.prompt('Timezone of the agenda times (IANA name):', localTimeZone());
+      if (input == null) return;
+      if (!isValidTimeZone(input.trim())) {
+        alert('Unknown timezone. Use a name like "Europe/Berlin" or "America/New_York".');
+        return;
+      }
+      timeZone = input.trim();
+    }
+    if (startDate !== config.startDate || timeZone !== config.timeZone) onConfigChange?.({ ...config, startDate, timeZone });
+    const ics = exportScheduleToICS(computed ?? [], sections, config, { startDate, timeZone, includeBreaks: icsIncludeBreaks });
+    downloadText('agenda-mover.ics', ics, 'text/calendar');
+  };
+
+  // Copy a link that carries the whole agenda in the URL hash
+  const onCopyShareLink = async () => {
+    const url = await buildShareUrl({ version: 2, sections, activities, config, injections: injections ?? [], people: people ?? [] });
+    try {
+      await navigator.clipboard.writeText(url);
+      alert(url.length > 8000 ? 'Share link copied. It is very long; some email or chat apps may cut it off.' : 'Share link copied to clipboard.');
+    } catch {
+      window.prompt('Copy this share link:', url);
+    }
   };
 
   const onPickImport = () => fileRef.current?.click();
 
+  // Hand parsed file contents on: replace the agenda, or review a merge first
+  const receive = (payload: ImportPayload) => {
+    if (importMode === 'merge' && onMerge) setPendingMerge({ sections: payload.sections, activities: payload.activities, people: payload.people });
+    else onImport(payload);
+  };
+
   const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -42,17 +109,16 @@ const StorageControls: React.FC<Props> = ({ sections, activities, config, inject
       const text = await readFileAsText(file);
       const isJson = file.name.toLowerCase().endsWith('.json') || text.trim().startsWith('{');
       if (isJson) {
-        const parsed = JSON.parse(text);
-        if (parsed && (parsed.version === 1 || parsed.version === 2) && parsed.sections && parsed.activities && parsed.config) {
-          onImport({ sections: parsed.sections, activities: parsed.activities, config: parsed.config, injections: parsed.injections });
+        const report = validatePersistedState(JSON.parse(text));
+        if (report.state && !report.issues.length) {
+          receive(report.state as Extract<PersistedState, { version: 2 }>);
         } else {
-          alert('Invalid JSON file.');
+          setPendingReport(report);
         }
       } else {
-        // Assume CSV: sections + activities
-        const res = importActivitiesFromCSV(text);
-        if (res.activities.length) {
-          onImport({ sections: res.sections, activities: res.activities, config });
+        // Assume CSV: sections + activities, mapped and previewed in a dialog
+        if (parseCsv(text).rows.length) {
+          setPendingCsv(text);
         } else {
           alert('Invalid or empty CSV file.');
         }
@@ -73,10 +139,14 @@ const StorageControls: React.FC<Props> = ({ sections, activities, config, inject
   return (
     <fieldset className="panel">
       <legend>Data</legend>
-      <div className="row">
+      <div className="row" style={{ flexWrap: 'wrap' }}>
         <button onClick={onExport}>Export JSON</button>
         <button onClick={onExportCSV}>Export CSV</button>
+        <button onClick={onExportICS}>Export .ics</button>
+        <button onClick={() => setShowTextExport(true)}>Export text…</button>
+        <button onClick={() => setShowMaterials(true)}>Materials…</button>
         <button onClick={onPickImport}>Import JSON/CSV</button>
+        <button onClick={onCopyShareLink}>Copy share link</button>
         <button className="danger" onClick={onClearAll}>Clear Saved</button>
         <button onClick={() => {
           const url = new URL(window.location.href);
@@ -84,7 +154,73 @@ const StorageControls: React.FC<Props> = ({ sections, activities, config, inject
           window.open(url.toString(), '_blank');
         }}>Print View</button>
       </div>
-      <input ref={fileRef} type="file" accept="application/json,text/csv" onChange={onFileChange} style={{ display: 'none' }} />
+      <div className="row" style={{ marginTop: 6 }}>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <input type="checkbox" checked={icsIncludeBreaks} onChange={(e) => setIcsIncludeBreaks(e.target.checked)} />
+          Include breaks/lunch in .ics
+        </label>
+        {onMerge && (
+          <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6, marginLeft: 12 }}>
+            Import
+            <select value={importMode} onChange={(e) => setImportMode(e.target.value as 'replace' | 'merge')}>
+              <option value="replace">replaces agenda</option>
+              <option value="merge">merges into agenda</option>
+            </select>
+          </label>
+        )}
+      </div>
+      {pendingReport && (
+        <ImportReportDialog
+          report={pendingReport}
+          onCancel={() => setPendingReport(null)}
+          onApply={() => {
+            receive(pendingReport.state as Extract<PersistedState, { version: 2 }>);
+            setPendingReport(null);
+          }}
+        />
+      )}
+      {pendingCsv != null && (
+        <CsvImportDialog
+          text={pendingCsv}
+          onCancel={() => setPendingCsv(null)}
+          onImport={(res) => {
+            receive({ sections: res.sections, activities: res.activities, people: res.people, config });
+            setPendingCsv(null);
+          }}
+        />
+      )}
+      {showTextExport && (
+        <TextExportDialog
+          sections={sections}
+          computed={computed ?? []}
+          dayDate={(day) => dateForDay(config, day)}
+          displayZones={(config.displayTimeZones ?? []).filter(isValidTimeZone)}
+          convertTime={displayZoneConverter(config)}
+          budgets={summarizeBudgets(sections, activities, config)}
+          onClose={() => setShowTextExport(false)}
+        />
+      )}
+      {showMaterials && (
+        <MaterialsDialog
+          sections={sections}
+          computed={computed ?? []}
+          dayDate={(day) => dateForDay(config, day)}
+          onClose={() => setShowMaterials(false)}
+        />
+      )}
+      {pendingMerge && onMerge && (
+        <MergeImportDialog
+          current={{ sections, activities, people }}
+          incoming={pendingMerge}
+          numberOfDays={config.numberOfDays ?? 1}
+          onCancel={() => setPendingMerge(null)}
+          onApply={(plan) => {
+            onMerge(plan);
+            setPendingMerge(null);
+          }}
+        />
+      )}
+      <input ref={fileRef} type="file" accept="application/json,text/csv,text/tab-separated-values,.csv,.tsv,.txt" onChange={onFileChange} style={{ display: 'none' }} />
     </fieldset>
   );
 };
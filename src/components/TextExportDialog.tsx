@@ -0,0 +1,84 @@
+import React from 'react';
+import Modal from './Modal';
+import { ComputedRow, Section } from '../models';
+import { exportScheduleToText, TEXT_EXPORT_FIELDS, TextExportField, TextExportFormat } from '@utils/textExport';
+import { downloadText } from '@utils/storage';
+import type { ZonedTime } from '@utils/dates';
+import type { BudgetSummary } from '@utils/budgets';
+
+interface Props {
+  sections: Section[];
+  computed: ComputedRow[];
+  dayDate?: (dayNumber: number) => string | null;
+  displayZones?: string[];
+  convertTime?: ((dayNumber: number, min: number) => ZonedTime[]) | null;
+  budgets?: BudgetSummary;
+  onClose: () => void;
+}
+
+// Export the computed schedule as a Markdown table or a plain-text outline, with a live preview.
+const TextExportDialog: React.FC<Props> = ({ sections, computed, dayDate, displayZones, convertTime, budgets, onClose }) => {
+  const [format, setFormat] = React.useState<TextExportFormat>('markdown');
+  const [fields, setFields] = React.useState<TextExportField[]>(['owner', 'slides', 'duration']);
+  const [includeBreaks, setIncludeBreaks] = React.useState(true);
+  const [copied, setCopied] = React.useState(false);
+
+  const text = React.useMemo(
+    () => exportScheduleToText(computed, sections, { format, fields, includeBreaks, dayDate, displayZones, convertTime, budgets }),
+    [computed, sections, format, fields, includeBreaks, dayDate, displayZones, convertTime, budgets],
+  );
+  React.useEffect(() => setCopied(false), [text]);
+
+  const toggleField = (field: TextExportField, on: boolean) =>
+    setFields((prev) => (on ? [...prev, field] : prev.filter((f) => f !== field)));
+
+  const onCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch {
+      alert('Could not access the clipboard. Select the text and copy it manually.');
+    }
+  };
+
+  return (
+    <Modal
+      title="Export as text"
+      onClose={onClose}
+      footer={
+        <>
+          <button onClick={onClose}>Close</button>
+          <button onClick={() => downloadText(format === 'markdown' ? 'agenda.md' : 'agenda.txt', text, format === 'markdown' ? 'text/markdown' : 'text/plain')}>
+            Download
+          </button>
+          <button className="primary" onClick={onCopy}>{copied ? 'Copied ✓' : 'Copy to clipboard'}</button>
+        </>
+      }
+    >
+      <div className="row" style={{ alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+        <label>
+          Format{' '}
+          <select value={format} onChange={(e) => setFormat(e.target.value as TextExportFormat)}>
+            <option value="markdown">Markdown table</option>
+            <option value="text">Plain-text outline</option>
+          </select>
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <input type="checkbox" checked={includeBreaks} onChange={(e) => setIncludeBreaks(e.target.checked)} />
+          Breaks/lunch
+        </label>
+      </div>
+      <div className="row" style={{ alignItems: 'center', gap: 12, flexWrap: 'wrap', marginTop: 6 }}>
+        {TEXT_EXPORT_FIELDS.map(({ field, label }) => (
+          <label key={field} style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+            <input type="checkbox" checked={fields.includes(field)} onChange={(e) => toggleField(field, e.target.checked)} />
+            {label}
+          </label>
+        ))}
+      </div>
+      <textarea className="text-export-preview" readOnly value={text} rows={16} />
+    </Modal>
+  );
+};
+
+export default TextExportDialog;
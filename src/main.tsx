@@ -1,7 +1,20 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import SharedView from './components/SharedView';
+import { readShareHash } from './utils/share';
+import { loadPrefs } from './utils/storage';
+import { setTimeFormat } from './utils/time';
 import './styles.css';
 
+// A #share=... link opens the read-only viewer, which never reads or writes the local agendas
+const shared = readShareHash();
+window.addEventListener('hashchange', () => {
+  if (readShareHash() !== shared) window.location.reload();
+});
+
+// Times are formatted with the saved preference from the first render on (shared links too)
+setTimeFormat(loadPrefs()?.timeFormat);
+
 const root = createRoot(document.getElementById('root')!);
-root.render(<App />);
+root.render(shared ? <SharedView encoded={shared} /> : <App />);
@@ -6,16 +6,24 @@ export type ID = string;
 export interface Activity {
   id: ID; // unique identifier for drag-and-drop and updates
   title: string; // activity name
-  owner: string; // who is running it
+  owner: string; // who is running it; co-owners are comma-separated names from the people list
   slideNumber?: string; // corresponding slide number (text to allow ranges like "12-14")
   durationMin: number; // duration in minutes
-  files?: string; // associated files (comma-separated or URLs)
+  minDurationMin?: number; // flexible: Auto-fit may shorten it down to this
+  maxDurationMin?: number; // flexible: Auto-fit may lengthen it up to this
+  files?: string; // legacy: associated files (comma-separated or URLs); replaced by attachments when edited
+  attachments?: Attachment[]; // named links/paths to the files the activity needs
   details?: string; // extra details
   notes?: string; // notes for facilitators
   sectionId: ID; // the section this activity belongs to
   isSystem?: boolean; // true if auto-generated (Break/Lunch)
   systemKey?: string; // stable key to find/update system activities
   completed?: boolean; // user indicates activity done
+  actualStartAt?: number; // epoch ms when the activity was started live (run of show)
+  actualEndAt?: number; // epoch ms when the activity was finished live
+  fixedStartMin?: number; // pinned start time (minutes from midnight); the scheduler holds it
+  priority?: Priority; // 'optional' items are proposed for the cut list when a day overruns
+  parkedFromSectionId?: ID; // section the activity was parked from, for restoring it
 }
 
 export interface Section {
@@ -23,19 +31,53 @@ export interface Section {
   name: string; // e.g., "Day 1: Morning"
   order: number; // for display ordering
   dayNumber?: number; // which day this section belongs to (1..N)
+  track?: string; // track/room; consecutive sections in different tracks run in parallel
+  budgetMin?: number; // target duration of the section (minutes)
+  parkingLot?: boolean; // holds parked activities; not timed, printed or exported
+}
+
+// A file or link an activity needs (slides, handouts, videos)
+export interface Attachment {
+  id: ID;
+  name: string; // display name; empty shows the file name from the path
+  path: string; // URL or file path
+}
+
+// How much an activity matters when a day runs long; unset counts as 'should'
+export type Priority = 'must' | 'should' | 'optional';
+
+// Someone who can own activities; stored with the agenda and referenced from Activity.owner by name
+export interface Person {
+  id: ID;
+  name: string; // canonical spelling used in Activity.owner
+  role?: string; // e.g. "Facilitator", "Speaker"
+  email?: string;
+  color?: string; // hex color for owner chips
 }
 
 export interface DayConfig {
   dayStartMin: number; // minutes from midnight for day start
   dayEndMin: number; // minutes from midnight for day end
   numberOfDays?: number; // how many days the agenda spans (default 1)
+  startDate?: string; // calendar date of Day 1 (YYYY-MM-DD)
+  skipWeekends?: boolean; // when true, Saturdays and Sundays are not agenda days
+  skippedDates?: string[]; // other calendar dates (YYYY-MM-DD) that are not agenda days
+  timeZone?: string; // IANA timezone the agenda times are in (e.g. "Europe/Berlin")
+  displayTimeZones?: string[]; // extra timezones to show converted times in, for remote attendees
   breakIntervalMin?: number; // general interval between breaks (minutes)
   breakDurationMin?: number; // break length (minutes)
   lunchTargetMin?: number; // approximate lunch start time (minutes from midnight)
   lunchDurationMin?: number; // lunch length (minutes)
+  dayOverrides?: Record<number, DayOverride>; // per-day settings keyed by day number (1..N)
+  dayBudgets?: Record<number, number>; // target planned minutes per day, keyed by day number
 }
 
-export type RowType = 'activity' | 'break' | 'lunch' | 'overflow';
+// Settings a single day can override; anything left unset falls back to the global DayConfig
+export type DayOverride = Partial<
+  Pick<DayConfig, 'dayStartMin' | 'dayEndMin' | 'breakIntervalMin' | 'breakDurationMin' | 'lunchTargetMin' | 'lunchDurationMin'>
+>;
+
+export type RowType = 'activity' | 'break' | 'lunch' | 'overflow' | 'gap' | 'conflict';
 
 export interface ComputedRowBase {
   id: ID; // unique id for rendering lists
@@ -49,6 +91,9 @@ export interface ComputedRowBase {
 export interface ComputedActivityRow extends ComputedRowBase {
   type: 'activity';
   activity: Activity;
+  plannedStartMin?: number; // start time per plan, ignoring actual times
+  plannedEndMin?: number; // end time per plan; endMin - plannedEndMin is the drift
+  live?: boolean; // times come from actual start/finish recorded today
 }
 
 export interface ComputedBreakRow extends ComputedRowBase {
@@ -61,10 +106,22 @@ export interface ComputedOverflowRow extends ComputedRowBase {
   label: string; // indicates schedule extends past end-of-day
 }
 
+export interface ComputedGapRow extends ComputedRowBase {
+  type: 'gap';
+  label: string; // idle time before a pinned activity
+}
+
+export interface ComputedConflictRow extends ComputedRowBase {
+  type: 'conflict';
+  label: string; // earlier content runs into a pinned activity (startMin..endMin is the overlap)
+}
+
 export type ComputedRow =
   | ComputedActivityRow
   | ComputedBreakRow
-  | ComputedOverflowRow;
+  | ComputedOverflowRow
+  | ComputedGapRow
+  | ComputedConflictRow;
 
 // Persistent injection record for placing computed rows only when user applies settings
 export interface Injection {
@@ -0,0 +1,174 @@
+// Activity attachments: named links/paths to the files an activity needs, plus the materials
+// manifest that lists every file with the activities and times it is needed for.
+// Older agendas keep files as a comma-separated string (Activity.files); it is read as a list
+// of unnamed attachments until the activity's files are edited.
+
+import { Activity, Attachment, ComputedRow, Section } from '../models';
+import { formatRange } from './time';
+import { formatDate } from './dates';
+
+const makeId = () => Math.random().toString(36).slice(2, 9);
+
+// "Agenda deck <https://example.com/deck>" or a bare path/URL, as used in the CSV Files column
+const NAMED = /^(.*?)\s*<([^<>]*)>$/;
+
+// Parse a comma-separated file list; empty items are dropped
+export function parseAttachmentList(text: string, idFor: (index: number) => string = makeId): Attachment[] {
+  return text
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item, i) => {
+      const named = NAMED.exec(item);
+      return named ? { id: idFor(i), name: named[1].trim(), path: named[2].trim() } : { id: idFor(i), name: '', path: item };
+    });
+}
+
+// Inverse of parseAttachmentList; entries without a path are left out
+export function formatAttachmentList(list: Attachment[]): string {
+  return list
+    .filter((f) => f.path.trim())
+    .map((f) => (f.name.trim() && f.name.trim() !== f.path.trim() ? `${f.name.trim()} <${f.path.trim()}>` : f.path.trim()))
+    .join(', ');
+}
+
+// The activity's attachments, falling back to the legacy comma-separated string
+export function activityAttachments(a: Activity): Attachment[] {
+  if (a.attachments) return a.attachments;
+  return a.files ? parseAttachmentList(a.files, (i) => `${a.id}-file-${i}`) : [];
+}
+
+// Replace an activity's attachments, dropping the legacy string
+export function withAttachments(a: Activity, list: Attachment[]): Activity {
+  const { files: _legacy, ...rest } = a;
+  return { ...rest, attachments: list };
+}
+
+// Link target for a path: web and mail addresses as given, "www." hosts over https; local paths have none
+export function attachmentHref(path: string): string | null {
+  const p = path.trim();
+  if (/^(https?|ftp):\/\/\S+$/i.test(p) || /^mailto:\S+$/i.test(p)) return p;
+  if (/^www\.\S+$/i.test(p)) return `https://${p}`;
+  return null;
+}
+
+// Display name: the given name, else the address without its scheme for links, or the file name of a path
+export function attachmentLabel(f: Attachment): string {
+  if (f.name.trim()) return f.name.trim();
+  if (attachmentHref(f.path)) return f.path.trim().replace(/^[a-z]+:(\/\/)?/i, '').replace(/\/$/, '');
+  const p = f.path.trim().replace(/[?#].*$/, '').replace(/[\\/]+$/, '');
+  return p.split(/[\\/]/).pop() || f.path.trim();
+}
+
+// Paths that refer to the same file: case, surrounding spaces and a trailing slash are ignored
+export const attachmentKey = (path: string) => path.trim().replace(/[\\/]+$/, '').toLowerCase();
+
+// Empty entries and files listed twice on one activity
+export interface AttachmentProblem {
+  kind: 'empty' | 'duplicate';
+  attachment: Attachment;
+}
+
+export function attachmentProblems(list: Attachment[]): AttachmentProblem[] {
+  const problems: AttachmentProblem[] = [];
+  const seen = new Set<string>();
+  for (const f of list) {
+    const key = attachmentKey(f.path);
+    if (!key) problems.push({ kind: 'empty', attachment: f });
+    else if (seen.has(key)) problems.push({ kind: 'duplicate', attachment: f });
+    else seen.add(key);
+  }
+  return problems;
+}
+
+// Materials manifest
+
+export interface ManifestUse {
+  activity: Activity;
+  section: Section;
+  dayNumber: number;
+  startMin: number;
+  endMin: number;
+}
+
+export interface ManifestEntry {
+  name: string; // first name given to the file, else its file name
+  path: string;
+  href: string | null;
+  uses: ManifestUse[]; // in schedule order
+}
+
+// Every file in the computed schedule, in order of first use. Break/Lunch rows and the parking
+// lot have no materials; the same path on several activities is listed once.
+export function buildMaterialsManifest(rows: ComputedRow[], sections: Section[]): ManifestEntry[] {
+  const sectionById = new Map(sections.map((s) => [s.id, s] as const));
+  const uses: { file: Attachment; use: ManifestUse }[] = [];
+  for (const r of rows) {
+    if (r.type !== 'activity' || r.activity.isSystem) continue;
+    const section = sectionById.get(r.activity.sectionId);
+    if (!section || section.parkingLot) continue;
+    const seen = new Set<string>();
+    for (const file of activityAttachments(r.activity)) {
+      const key = attachmentKey(file.path);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      uses.push({ file, use: { activity: r.activity, section, dayNumber: section.dayNumber ?? 1, startMin: r.startMin, endMin: r.endMin } });
+    }
+  }
+  uses.sort((a, b) => a.use.dayNumber - b.use.dayNumber || a.use.startMin - b.use.startMin);
+
+  const byKey = new Map<string, ManifestEntry & { named: boolean }>();
+  for (const { file, use } of uses) {
+    const key = attachmentKey(file.path);
+    let entry = byKey.get(key);
+    if (!entry) {
+      entry = { name: attachmentLabel(file), path: file.path.trim(), href: attachmentHref(file.path), uses: [], named: !!file.name.trim() };
+      byKey.set(key, entry);
+    } else if (!entry.named && file.name.trim()) {
+      // A later use gave the file a name
+      entry.name = file.name.trim();
+      entry.named = true;
+    }
+    entry.uses.push(use);
+  }
+  return Array.from(byKey.values(), ({ named: _named, ...entry }) => entry);
+}
+
+export type ManifestFormat = 'markdown' | 'text';
+
+export interface ManifestExportOptions {
+  format: ManifestFormat;
+  title?: string;
+  dayDate?: (dayNumber: number) => string | null; // calendar date (YYYY-MM-DD) for a day, if known
+}
+
+export function exportManifestToText(entries: ManifestEntry[], options: ManifestExportOptions): string {
+  const md = options.format === 'markdown';
+  const title = options.title ?? 'Materials';
+  const showDays = entries.some((e) => e.uses.some((u) => u.dayNumber !== 1 || options.dayDate?.(u.dayNumber)));
+  const when = (u: ManifestUse) => {
+    const date = options.dayDate?.(u.dayNumber);
+    const day = showDays ? `Day ${u.dayNumber}${date ? ` (${formatDate(date)})` : ''} ` : '';
+    return `${day}${formatRange(u.startMin, u.endMin)}`;
+  };
+  const out: string[] = [md ? `# ${title}` : title.toUpperCase(), ''];
+  if (!entries.length) {
+    out.push('No files are attached to scheduled activities.');
+    return out.join('\n') + '\n';
+  }
+  if (md) {
+    const cell = (s: string) => s.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    out.push('| File | Location | Needed for | When |', '| --- | --- | --- | --- |');
+    for (const e of entries) {
+      const file = e.href ? `[${cell(e.name)}](${e.href.replace(/[()\s]/g, encodeURIComponent)})` : cell(e.name);
+      const usedFor = e.uses.map((u) => `${cell(u.activity.title || '(untitled)')} (${cell(u.section.name)})`).join('<br>');
+      out.push(`| ${file} | ${cell(e.path)} | ${usedFor} | ${e.uses.map(when).join('<br>')} |`);
+    }
+  } else {
+    for (const e of entries) {
+      out.push(e.name === e.path ? e.path : `${e.name} — ${e.path}`);
+      for (const u of e.uses) out.push(`    ${when(u)} ${u.activity.title || '(untitled)'} (${u.section.name})`);
+    }
+  }
+  return out.join('\n') + '\n';
+}
@@ -0,0 +1,125 @@
+// Auto-fit: shorten or lengthen flexible activities (those with a min/max duration) so each day
+// ends at its end-of-day time. Minutes are shared out in proportion to each activity's room to
+// move, then the schedule is rebuilt and the remainder redistributed, since pinned activities,
+// gaps and parallel tracks mean a minute saved is not always a minute off the day.
+
+import { Activity, DayConfig, ID, Section } from '../models';
+import { buildScheduleFromActivities, configForDay, dayEndTimes, longestTrack } from './schedule';
+import { parseDuration } from './time';
+
+export interface AutoFitChange {
+  activityId: ID;
+  title: string;
+  dayNumber: number;
+  fromMin: number;
+  toMin: number;
+}
+
+export interface AutoFitDay {
+  dayNumber: number;
+  dayEndMin: number;
+  beforeEndMin: number; // when the day ends now
+  afterEndMin: number; // when it ends with the changes
+}
+
+export interface AutoFitPlan {
+  activities: Activity[];
+  changes: AutoFitChange[];
+  days: AutoFitDay[]; // days that end early or late, before and after fitting
+}
+
+const MAX_ROUNDS = 8;
+
+// Is the activity flexible, and within which bounds? Completed or started activities keep their time.
+export function flexRange(a: Activity): { min: number; max: number } | null {
+  if (a.isSystem || a.completed || a.actualStartAt != null) return null;
+  if (a.minDurationMin == null && a.maxDurationMin == null) return null;
+  const min = Math.max(1, Math.min(a.minDurationMin ?? a.durationMin, a.durationMin));
+  const max = Math.max(a.maxDurationMin ?? a.durationMin, a.durationMin);
+  return { min, max };
+}
+
+// Parse a flexible range typed as "30-60", "30-" (minimum only) or "-60" (maximum only).
+// Empty input clears the range; null means the input is not a valid range.
+export function parseFlexRange(value: string): { minDurationMin?: number; maxDurationMin?: number } | null {
+  const v = value.trim();
+  if (!v) return { minDurationMin: undefined, maxDurationMin: undefined };
+  const m = /^([^-–]*)[-–]([^-–]*)$/.exec(v);
+  if (!m) return null;
+  const min = m[1].trim() ? parseDuration(m[1]) : undefined;
+  const max = m[2].trim() ? parseDuration(m[2]) : undefined;
+  if (min === null || max === null || (min == null && max == null)) return null;
+  if (min != null && max != null && min > max) return null;
+  return { minDurationMin: min, maxDurationMin: max };
+}
+
+// "30–60 min", "≥ 30 min", "≤ 60 min"
+export function formatFlexRange(a: Pick<Activity, 'minDurationMin' | 'maxDurationMin'>): string {
+  if (a.minDurationMin != null && a.maxDurationMin != null) return `${a.minDurationMin}–${a.maxDurationMin} min`;
+  if (a.minDurationMin != null) return `≥ ${a.minDurationMin} min`;
+  if (a.maxDurationMin != null) return `≤ ${a.maxDurationMin} min`;
+  return '';
+}
+
+type FitConfig = Pick<DayConfig, 'dayStartMin' | 'dayEndMin' | 'numberOfDays' | 'dayOverrides'>;
+
+export function planAutoFit(config: FitConfig, sections: Section[], activities: Activity[]): AutoFitPlan {
+  const sectionById = new Map(sections.map((s) => [s.id, s] as const));
+  const dayOf = (a: Activity) => sectionById.get(a.sectionId)?.dayNumber ?? 1;
+  const trackOf = (sectionId: ID | null) => (sectionId ? sectionById.get(sectionId)?.track?.trim() ?? '' : '');
+
+  const ends = (acts: Activity[]) => dayEndTimes(buildScheduleFromActivities(config, sections, acts), sections);
+
+  const before = ends(activities);
+  let working = activities.slice();
+  for (const [day] of before) {
+    const target = configForDay(config, day).dayEndMin;
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      const now = ends(working).get(day);
+      if (!now || now.endMin === target) break;
+      const delta = target - now.endMin; // < 0 shorten, > 0 lengthen
+      // Only untracked activities and the track that ends last move the end of the day
+      const longest = longestTrack(now);
+      const candidates = working
+        .map((a, index) => ({ a, index, range: flexRange(a) }))
+        .filter(({ a, range }) => range && !sectionById.get(a.sectionId)?.parkingLot && dayOf(a) === day && (!trackOf(a.sectionId) || trackOf(a.sectionId) === longest))
+        .map(({ a, index, range }) => ({ a, index, room: delta < 0 ? a.durationMin - range!.min : range!.max - a.durationMin }))
+        .filter((c) => c.room > 0);
+      const totalRoom = candidates.reduce((sum, c) => sum + c.room, 0);
+      if (!totalRoom) break;
+      const amounts = shareOut(Math.min(Math.abs(delta), totalRoom), candidates.map((c) => c.room));
+      working = working.slice();
+      candidates.forEach((c, i) => {
+        if (amounts[i]) working[c.index] = { ...c.a, durationMin: c.a.durationMin + Math.sign(delta) * amounts[i] };
+      });
+    }
+  }
+
+  const after = ends(working);
+  const original = new Map(activities.map((a) => [a.id, a] as const));
+  const changes: AutoFitChange[] = working
+    .filter((a) => original.get(a.id)!.durationMin !== a.durationMin)
+    .map((a) => ({ activityId: a.id, title: a.title, dayNumber: dayOf(a), fromMin: original.get(a.id)!.durationMin, toMin: a.durationMin }));
+  const days: AutoFitDay[] = Array.from(before)
+    .sort((a, b) => a[0] - b[0])
+    .map(([dayNumber, b]) => ({ dayNumber, dayEndMin: configForDay(config, dayNumber).dayEndMin, beforeEndMin: b.endMin, afterEndMin: after.get(dayNumber)?.endMin ?? b.endMin }))
+    .filter((d) => d.beforeEndMin !== d.dayEndMin);
+  return { activities: working, changes, days };
+}
+
+// Split a whole number of minutes in proportion to weights, handing leftovers to the largest remainders
+function shareOut(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((s, w) => s + w, 0);
+  const exact = weights.map((w) => (total * w) / sum);
+  const parts = exact.map(Math.floor);
+  let left = total - parts.reduce((s, p) => s + p, 0);
+  const order = exact.map((x, i) => ({ i, frac: x - Math.floor(x) })).sort((a, b) => b.frac - a.frac);
+  for (const { i } of order) {
+    if (left <= 0) break;
+    if (parts[i] < weights[i]) {
+      parts[i]++;
+      left--;
+    }
+  }
+  return parts;
+}
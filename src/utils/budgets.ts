@@ -0,0 +1,51 @@
+// Time budgets: optional target durations for sections and days, compared with what is planned.
+// Planned time is the sum of activity durations (Break/Lunch included, since they use up the block);
+// for a day with parallel tracks only the longest track counts.
+
+import { Activity, DayConfig, ID, Section } from '../models';
+import { groupSectionsByTrack } from './schedule';
+import { formatDuration } from './time';
+
+export interface BudgetStatus {
+  plannedMin: number;
+  budgetMin?: number;
+  remainingMin?: number; // budget minus planned; negative when over budget
+}
+
+export interface BudgetSummary {
+  sections: Record<ID, BudgetStatus>;
+  days: Record<number, BudgetStatus>;
+}
+
+function status(plannedMin: number, budgetMin: number | undefined): BudgetStatus {
+  return budgetMin != null ? { plannedMin, budgetMin, remainingMin: budgetMin - plannedMin } : { plannedMin };
+}
+
+export function summarizeBudgets(sections: Section[], activities: Activity[], config: Pick<DayConfig, 'dayBudgets'>): BudgetSummary {
+  const planned = new Map<ID, number>();
+  for (const a of activities) planned.set(a.sectionId, (planned.get(a.sectionId) ?? 0) + (a.durationMin || 0));
+
+  const result: BudgetSummary = { sections: {}, days: {} };
+  for (const s of sections) result.sections[s.id] = status(planned.get(s.id) ?? 0, s.budgetMin);
+
+  const dayPlanned = new Map<number, number>();
+  for (const block of groupSectionsByTrack(sections)) {
+    const longest = Math.max(...block.lanes.map((lane) => lane.sections.reduce((sum, s) => sum + (planned.get(s.id) ?? 0), 0)));
+    dayPlanned.set(block.dayNumber, (dayPlanned.get(block.dayNumber) ?? 0) + longest);
+  }
+  for (const [day, min] of dayPlanned) result.days[day] = status(min, config.dayBudgets?.[day]);
+  return result;
+}
+
+// "2h 40m of 3h · 20 min left" / "3h 15m of 3h · 15 min over"
+export function describeBudget(b: BudgetStatus): string {
+  if (b.budgetMin == null || b.remainingMin == null) return `${formatDuration(b.plannedMin)} planned`;
+  const rest = b.remainingMin === 0 ? 'on budget' : `${formatDuration(Math.abs(b.remainingMin))} ${b.remainingMin > 0 ? 'left' : 'over'}`;
+  return `${formatDuration(b.plannedMin)} of ${formatDuration(b.budgetMin)} · ${rest}`;
+}
+
+// CSS modifier for a budget indicator
+export function budgetClass(b: BudgetStatus): string {
+  if (b.remainingMin == null) return 'budget';
+  return b.remainingMin < 0 ? 'budget over' : 'budget under';
+}
@@ -0,0 +1,175 @@
+// RFC 4180 CSV reading and column mapping for activity imports.
+// Handles quoted fields with embedded delimiters, quotes and line breaks, CRLF/LF line
+// endings, a leading BOM, and comma, semicolon or tab delimiters.
+
+import { Activity, Person, Section } from '../models';
+import { splitOwners } from './owners';
+import { createPerson, findPerson, joinOwners } from './people';
+import { parseAttachmentList } from './attachments';
+import { parseDuration } from './time';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface ParsedCsv {
+  rows: string[][];
+  delimiter: CsvDelimiter;
+}
+
+// Activity fields a CSV column can be mapped to
+export type CsvField = 'section' | 'day' | 'title' | 'owner' | 'ownerRole' | 'ownerEmail' | 'slideNumber' | 'durationMin' | 'files' | 'details' | 'notes';
+export type CsvMapping = Record<CsvField, number>; // column index, or -1 when unmapped
+
+export const CSV_FIELDS: { field: CsvField; label: string }[] = [
+  { field: 'section', label: 'Section' },
+  { field: 'day', label: 'Day' },
+  { field: 'title', label: 'Title' },
+  { field: 'owner', label: 'Owner' },
+  { field: 'ownerRole', label: 'Owner role' },
+  { field: 'ownerEmail', label: 'Owner email' },
+  { field: 'slideNumber', label: 'Slide #' },
+  { field: 'durationMin', label: 'Duration (min)' },
+  { field: 'files', label: 'Files' },
+  { field: 'details', label: 'Details' },
+  { field: 'notes', label: 'Notes' },
+];
+
+// Header names recognized for each field (compared lowercase, without spaces/punctuation)
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  section: ['section', 'block', 'segment', 'part'],
+  day: ['day', 'daynumber', 'dayno'],
+  title: ['title', 'activity', 'name', 'session', 'item', 'topic'],
+  owner: ['owner', 'owners', 'presenter', 'speaker', 'facilitator', 'host', 'lead'],
+  ownerRole: ['ownerrole', 'ownerroles', 'role', 'roles'],
+  ownerEmail: ['owneremail', 'owneremails', 'email', 'emails'],
+  slideNumber: ['slidenumber', 'slide', 'slides', 'slideno'],
+  durationMin: ['durationmin', 'duration', 'durationminutes', 'minutes', 'mins', 'min', 'length', 'time'],
+  files: ['files', 'file', 'materials', 'attachments', 'links'],
+  details: ['details', 'description', 'detail', 'summary'],
+  notes: ['notes', 'note', 'facilitatornotes', 'comments'],
+};
+
+// Pick the delimiter that occurs most often outside quotes in the first line
+export function detectDelimiter(text: string): CsvDelimiter {
+  const counts: Record<CsvDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+  for (const ch of text) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) break;
+    else if (!inQuotes && ch in counts) counts[ch as CsvDelimiter]++;
+  }
+  const best = (Object.keys(counts) as CsvDelimiter[]).sort((a, b) => counts[b] - counts[a])[0];
+  return counts[best] > 0 ? best : ',';
+}
+
+export function parseCsv(input: string, delimiter?: CsvDelimiter): ParsedCsv {
+  const text = input.replace(/^\uFEFF/, '');
+  const delim = delimiter ?? detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cur = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { cur += '"'; i++; continue; }
+      if (ch === '"') { inQuotes = false; continue; }
+      cur += ch;
+      continue;
+    }
+    if (ch === '"') { inQuotes = true; continue; }
+    if (ch === delim) { row.push(cur); cur = ''; continue; }
+    if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cur);
+      rows.push(row);
+      row = [];
+      cur = '';
+      continue;
+    }
+    cur += ch;
+  }
+  if (cur.length || row.length) {
+    row.push(cur);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return { rows: rows.filter((r) => r.some((c) => c.trim().length > 0)), delimiter: delim };
+}
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Guess a mapping from header names; unrecognized fields stay unmapped
+export function guessCsvMapping(header: string[]): CsvMapping {
+  const normalized = header.map(normalizeHeader);
+  const mapping = {} as CsvMapping;
+  const used = new Set<number>();
+  for (const { field } of CSV_FIELDS) {
+    const idx = HEADER_ALIASES[field]
+      .map((alias) => normalized.findIndex((h, i) => h === alias && !used.has(i)))
+      .find((i) => i >= 0);
+    mapping[field] = idx ?? -1;
+    if (idx != null) used.add(idx);
+  }
+  return mapping;
+}
+
+export interface CsvImportResult {
+  sections: Section[];
+  activities: Activity[];
+  people: Person[]; // owners found in the file, with role/email when those columns are mapped
+  skipped: { rowIndex: number; title: string; duration: string }[]; // rows left out because their duration is unreadable
+}
+
+// Build sections and activities from data rows using a column mapping. Unknown sections will be created.
+// Owner role/email columns list one value per co-owner, separated by semicolons.
+// Durations are read with parseDuration ("45", "45 min", "1h30", "1:30"); an empty cell means 0 min,
+// and rows whose duration cannot be read are reported in `skipped` instead of being imported.
+export function buildCsvImport(rows: string[][], mapping: CsvMapping): CsvImportResult {
+  const sectionsMap = new Map<string, Section>();
+  const makeId = () => Math.random().toString(36).slice(2, 9);
+  const activities: Activity[] = [];
+  const people: Person[] = [];
+  const skipped: CsvImportResult['skipped'] = [];
+  let orderCounter = 1;
+  const cell = (cols: string[], field: CsvField) => (mapping[field] >= 0 ? (cols[mapping[field]] ?? '').trim() : '');
+
+  rows.forEach((cols, rowIndex) => {
+    const rawDuration = cell(cols, 'durationMin');
+    const durationMin = rawDuration ? parseDuration(rawDuration) : 0;
+    if (durationMin == null) {
+      skipped.push({ rowIndex, title: cell(cols, 'title'), duration: rawDuration });
+      return;
+    }
+    const secName = cell(cols, 'section') || 'Imported';
+    if (!sectionsMap.has(secName)) {
+      const day = Number(cell(cols, 'day'));
+      sectionsMap.set(secName, { id: makeId(), name: secName, order: orderCounter++, ...(day >= 1 ? { dayNumber: Math.floor(day) } : {}) });
+    }
+    const owners = splitOwners(cell(cols, 'owner'), people);
+    const roles = cell(cols, 'ownerRole').split(';').map((s) => s.trim());
+    const emails = cell(cols, 'ownerEmail').split(';').map((s) => s.trim());
+    owners.forEach((name, i) => {
+      const existing = findPerson(people, name);
+      if (existing) {
+        existing.role = existing.role || roles[i] || undefined;
+        existing.email = existing.email || emails[i] || undefined;
+      } else {
+        people.push(createPerson(people, name, { ...(roles[i] ? { role: roles[i] } : {}), ...(emails[i] ? { email: emails[i] } : {}) }));
+      }
+    });
+    activities.push({
+      id: makeId(),
+      title: cell(cols, 'title'),
+      owner: joinOwners(owners, people),
+      slideNumber: cell(cols, 'slideNumber') || undefined,
+      durationMin,
+      ...(cell(cols, 'files') ? { attachments: parseAttachmentList(cell(cols, 'files')) } : {}),
+      details: cell(cols, 'details') || undefined,
+      notes: cell(cols, 'notes') || undefined,
+      sectionId: sectionsMap.get(secName)!.id,
+    });
+  });
+
+  return { sections: Array.from(sectionsMap.values()), activities, people, skipped };
+}
@@ -0,0 +1,97 @@
+// Cut list: when a day runs past its end time, propose optional activities to drop or park so it
+// ends on time again. Parked activities live in the parking lot section, which is not timed.
+
+import { Activity, DayConfig, ID, Section } from '../models';
+import { buildScheduleFromActivities, configForDay, dayEndTimes, longestTrack } from './schedule';
+
+export interface CutDay {
+  dayNumber: number;
+  dayEndMin: number;
+  endMin: number; // when the day ends now
+  afterEndMin: number; // when it ends without the proposed items
+}
+
+export interface CutItem {
+  activityId: ID;
+  title: string;
+  dayNumber: number;
+  section: string;
+  durationMin: number;
+}
+
+export interface CutPlan {
+  days: CutDay[]; // days that run long
+  items: CutItem[]; // proposed optional activities, by day
+}
+
+export const PARKING_LOT_NAME = 'Parking lot';
+
+type CutConfig = Pick<DayConfig, 'dayStartMin' | 'dayEndMin' | 'numberOfDays' | 'dayOverrides'>;
+
+// Optional activities that can still be cut: not done, not under way
+function cuttable(a: Activity): boolean {
+  return a.priority === 'optional' && !a.isSystem && !a.completed && a.actualStartAt == null;
+}
+
+// Per overrunning day: the smallest optional item that covers the overrun on its own, otherwise the
+// largest ones until it is covered. The schedule is rebuilt after each pick, since pinned activities
+// and parallel tracks mean removing minutes does not always shorten the day by as much.
+export function planCuts(config: CutConfig, sections: Section[], activities: Activity[]): CutPlan {
+  const sectionById = new Map(sections.map((s) => [s.id, s] as const));
+  const trackOf = (a: Activity) => sectionById.get(a.sectionId)?.track?.trim() ?? '';
+  const ends = (acts: Activity[]) => dayEndTimes(buildScheduleFromActivities(config, sections, acts), sections);
+
+  const days: CutDay[] = [];
+  const items: CutItem[] = [];
+  const removed = new Set<ID>();
+  for (const [dayNumber, before] of Array.from(ends(activities)).sort((a, b) => a[0] - b[0])) {
+    const dayEndMin = configForDay(config, dayNumber).dayEndMin;
+    if (before.endMin <= dayEndMin) continue;
+    let now = before;
+    while (now.endMin > dayEndMin) {
+      const longest = longestTrack(now);
+      const candidates = activities.filter((a) => {
+        const section = sectionById.get(a.sectionId);
+        return cuttable(a) && !removed.has(a.id) && section && !section.parkingLot && (section.dayNumber ?? 1) === dayNumber && (!trackOf(a) || trackOf(a) === longest);
+      });
+      if (!candidates.length) break;
+      const over = now.endMin - dayEndMin;
+      const covering = candidates.filter((a) => a.durationMin >= over).sort((a, b) => a.durationMin - b.durationMin);
+      const pick = covering[0] ?? candidates.slice().sort((a, b) => b.durationMin - a.durationMin)[0];
+      removed.add(pick.id);
+      items.push({ activityId: pick.id, title: pick.title, dayNumber, section: sectionById.get(pick.sectionId)?.name ?? '', durationMin: pick.durationMin });
+      now = ends(activities.filter((a) => !removed.has(a.id))).get(dayNumber) ?? { endMin: 0, lanes: new Map() };
+    }
+    days.push({ dayNumber, dayEndMin, endMin: before.endMin, afterEndMin: now.endMin });
+  }
+  return { days, items };
+}
+
+// Move activities to the parking lot (created at the end when missing), remembering their section
+export function parkActivities(sections: Section[], activities: Activity[], ids: ID[], makeId: () => ID): { sections: Section[]; activities: Activity[] } {
+  let lot = sections.find((s) => s.parkingLot);
+  const nextSections = lot ? sections : [...sections, (lot = { id: makeId(), name: PARKING_LOT_NAME, order: Math.max(0, ...sections.map((s) => s.order)) + 1, parkingLot: true })];
+  const lotId = lot.id;
+  const moving = new Set(ids);
+  const parked = activities
+    .filter((a) => moving.has(a.id) && a.sectionId !== lotId)
+    .map((a) => ({ ...a, sectionId: lotId, parkedFromSectionId: a.sectionId }));
+  return { sections: nextSections, activities: [...activities.filter((a) => !moving.has(a.id) || a.sectionId === lotId), ...parked] };
+}
+
+// Bring a parked activity back to the end of the section it came from (or the first section)
+export function restoreActivity(sections: Section[], activities: Activity[], id: ID): Activity[] {
+  const activity = activities.find((a) => a.id === id);
+  if (!activity) return activities;
+  const timed = sections.filter((s) => !s.parkingLot).sort((a, b) => a.order - b.order);
+  const target = timed.find((s) => s.id === activity.parkedFromSectionId) ?? timed[0];
+  if (!target) return activities;
+  const { parkedFromSectionId: _from, ...rest } = activity;
+  const restored: Activity = { ...rest, sectionId: target.id };
+  const others = activities.filter((a) => a.id !== id);
+  let at = -1;
+  others.forEach((a, i) => {
+    if (a.sectionId === target.id) at = i;
+  });
+  return at < 0 ? [...others, restored] : [...others.slice(0, at + 1), restored, ...others.slice(at + 1)];
+}
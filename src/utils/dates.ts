@@ -0,0 +1,140 @@
+// Calendar helpers: map agenda day numbers (1..N) to real dates.
+// Dates are stored as ISO "YYYY-MM-DD" strings and handled in local time to avoid timezone shifts.
+
+import { DayConfig } from '../models';
+
+// Parse "YYYY-MM-DD" into a local Date at midnight
+export function parseIsoDate(value: string): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value ?? '');
+  if (!m) return null;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+// Format a local Date as "YYYY-MM-DD"
+export function toIsoDate(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Calendar date (YYYY-MM-DD) of the given agenda day, skipping weekends and skipped dates.
+// Returns null when the agenda has no start date.
+export function dateForDay(config: Pick<DayConfig, 'startDate' | 'skipWeekends' | 'skippedDates'>, dayNumber: number): string | null {
+  const start = config.startDate ? parseIsoDate(config.startDate) : null;
+  if (!start) return null;
+  const skipped = new Set(config.skippedDates ?? []);
+  const isAgendaDay = (d: Date) => {
+    if (config.skipWeekends && (d.getDay() === 0 || d.getDay() === 6)) return false;
+    return !skipped.has(toIsoDate(d));
+  };
+  const d = new Date(start);
+  let remaining = Math.max(1, dayNumber);
+  // Guard against configurations that skip every date
+  for (let i = 0; i < 3660; i++) {
+    if (isAgendaDay(d)) {
+      remaining--;
+      if (remaining === 0) return toIsoDate(d);
+    }
+    d.setDate(d.getDate() + 1);
+  }
+  return null;
+}
+
+// Human-friendly date like "Tue, Nov 3, 2026"
+export function formatDate(iso: string): string {
+  const d = parseIsoDate(iso);
+  if (!d) return iso;
+  return d.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// True if the runtime recognizes the IANA timezone name (e.g. "Europe/Berlin")
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The browser's own timezone, used as a default
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Wall-clock parts of an instant in a timezone. Formatters are cached: building one is slow
+// and tables convert every row.
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+function zonedParts(instant: Date, timeZone: string) {
+  let fmt = partsFormatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+    });
+    partsFormatters.set(timeZone, fmt);
+  }
+  const parts = fmt.formatToParts(instant);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+// Offset of a timezone from UTC at the given instant, in minutes (e.g. +60 for CET)
+function tzOffsetMin(instant: Date, timeZone: string): number {
+  const p = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - instant.getTime()) / 60000);
+}
+
+// Convert a wall-clock time (date + minutes from midnight) in a timezone to an absolute instant
+export function zonedTimeToUtc(isoDate: string, min: number, timeZone: string): Date | null {
+  const d = parseIsoDate(isoDate);
+  if (!d) return null;
+  const guess = Date.UTC(d.getFullYear(), d.getMonth(), d.getDate(), 0, min);
+  const first = guess - tzOffsetMin(new Date(guess), timeZone) * 60000;
+  // Re-check once so times near a DST switch use the offset in effect at that moment
+  return new Date(guess - tzOffsetMin(new Date(first), timeZone) * 60000);
+}
+
+// All IANA timezone names the runtime knows (empty on older browsers)
+export function listTimeZones(): string[] {
+  const supported = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supported ? supported('timeZone') : [];
+}
+
+// Short display name for a timezone: its city ("America/New_York" → "New York")
+export function timeZoneLabel(timeZone: string): string {
+  return (timeZone.split('/').pop() ?? timeZone).replace(/_/g, ' ');
+}
+
+export interface ZonedTime {
+  timeZone: string;
+  min: number; // minutes from midnight in that timezone
+  dayOffset: number; // calendar days relative to the agenda date (e.g. +1 the next morning)
+}
+
+// Convert a wall-clock time on a date in one timezone to the wall-clock time in another
+export function convertZonedTime(isoDate: string, min: number, fromZone: string, toZone: string): ZonedTime | null {
+  const instant = zonedTimeToUtc(isoDate, min, fromZone);
+  const base = parseIsoDate(isoDate);
+  if (!instant || !base) return null;
+  const p = zonedParts(instant, toZone);
+  const dayOffset = Math.round((Date.UTC(p.year, p.month - 1, p.day) - Date.UTC(base.getFullYear(), base.getMonth(), base.getDate())) / 86400000);
+  return { timeZone: toZone, min: p.hour * 60 + p.minute, dayOffset };
+}
+
+// A converter from agenda times to each display timezone. Conversions use the day's calendar
+// date when a start date is set (so DST is right), otherwise today's date.
+export function displayZoneConverter(
+  config: Pick<DayConfig, 'startDate' | 'skipWeekends' | 'skippedDates' | 'timeZone' | 'displayTimeZones'>,
+): ((dayNumber: number, min: number) => ZonedTime[]) | null {
+  const zones = (config.displayTimeZones ?? []).filter(isValidTimeZone);
+  if (!zones.length) return null;
+  const home = config.timeZone && isValidTimeZone(config.timeZone) ? config.timeZone : localTimeZone();
+  const today = toIsoDate(new Date());
+  return (dayNumber, min) => {
+    const date = dateForDay(config, dayNumber) ?? today;
+    return zones.map((tz) => convertZonedTime(date, min, home, tz) ?? { timeZone: tz, min, dayOffset: 0 });
+  };
+}
@@ -0,0 +1,117 @@
+// iCalendar (.ics) export of the computed schedule.
+// Each activity becomes a VEVENT whose UID is derived from Activity.id, so re-importing an
+// updated file into Outlook/Google updates the existing events instead of duplicating them.
+
+import { ComputedRow, DayConfig, Section } from '../models';
+import { dateForDay, zonedTimeToUtc } from './dates';
+import { activityAttachments } from './attachments';
+import { markdownToPlainText } from './markdown';
+
+export interface IcsOptions {
+  startDate: string; // calendar date of Day 1 (YYYY-MM-DD)
+  timeZone: string; // IANA timezone the agenda times are in
+  includeBreaks?: boolean; // include Break/Lunch rows as events
+  calendarName?: string;
+}
+
+export function exportScheduleToICS(
+  rows: ComputedRow[],
+  sections: Section[],
+  config: DayConfig,
+  options: IcsOptions,
+): string {
+  const sectionById = new Map(sections.map((s) => [s.id, s] as const));
+  const calendar = { ...config, startDate: options.startDate };
+  const stamp = formatUtc(new Date());
+  // Increases with every export so calendar clients accept the new version as an update
+  const sequence = Math.floor(Date.now() / 1000);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Agenda Mover//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName ?? 'Agenda')}`,
+    `X-WR-TIMEZONE:${options.timeZone}`,
+  ];
+
+  for (const row of rows) {
+    if (row.type === 'overflow' || row.type === 'gap' || row.type === 'conflict') continue;
+    const isBreak = row.type !== 'activity' || !!row.activity.isSystem;
+    if (isBreak && !options.includeBreaks) continue;
+
+    const section = row.sectionId ? sectionById.get(row.sectionId) : undefined;
+    const date = dateForDay(calendar, section?.dayNumber ?? 1);
+    if (!date) continue;
+    const start = zonedTimeToUtc(date, row.startMin, options.timeZone);
+    const end = zonedTimeToUtc(date, row.endMin, options.timeZone);
+    if (!start || !end) continue;
+
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${row.type === 'activity' ? row.activity.id : row.id}@agenda-mover`);
+    lines.push(`DTSTAMP:${stamp}`);
+    lines.push(`SEQUENCE:${sequence}`);
+    lines.push(`DTSTART:${formatUtc(start)}`);
+    lines.push(`DTEND:${formatUtc(end)}`);
+
+    if (row.type === 'activity') {
+      const a = row.activity;
+      lines.push(`SUMMARY:${escapeText(a.title)}`);
+      const files = activityAttachments(a).map((f) => f.path.trim()).filter(Boolean);
+      const description = [
+        a.owner ? `Owner: ${a.owner}` : '',
+        section ? `Section: ${section.name}` : '',
+        a.slideNumber ? `Slides: ${a.slideNumber}` : '',
+        a.details ? markdownToPlainText(a.details) : '',
+        a.notes ? `Notes: ${markdownToPlainText(a.notes)}` : '',
+        files.length ? `Files: ${files.join(', ')}` : '',
+      ].filter(Boolean).join('\n');
+      if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+      for (const f of files) {
+        if (/^https?:\/\//i.test(f)) lines.push(`ATTACH:${f}`);
+      }
+      const url = files.find((f) => /^https?:\/\//i.test(f));
+      if (url) lines.push(`URL:${url}`);
+      if (isBreak) lines.push('TRANSP:TRANSPARENT');
+    } else {
+      lines.push(`SUMMARY:${escapeText(row.label)}`);
+      lines.push('TRANSP:TRANSPARENT');
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// 20261103T080000Z
+function formatUtc(d: Date): string {
+  return d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Escape TEXT values per RFC 5545 (backslash, semicolon, comma, newline)
+function escapeText(val: string): string {
+  return val.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Fold content lines longer than 75 octets
+function foldLine(line: string): string {
+  const bytes = new TextEncoder();
+  if (bytes.encode(line).length <= 75) return line;
+  const out: string[] = [];
+  let cur = '';
+  let curLen = 0;
+  for (const ch of line) {
+    const len = bytes.encode(ch).length;
+    if (curLen + len > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = '';
+      curLen = 0;
+    }
+    cur += ch;
+    curLen += len;
+  }
+  out.push(cur);
+  return out.join('\r\n ');
+}
@@ -0,0 +1,147 @@
+// Schedule lint: problems found in the agenda data and the computed schedule, each pointing at
+// the row or section to fix. Shown in the Checks panel; clicking an issue scrolls to its target.
+
+import { Activity, ComputedRow, DayConfig, ID, Section } from '../models';
+import { configForDay } from './schedule';
+import { formatDuration, formatMin } from './time';
+import { formatSlideRanges, MAX_SLIDE } from './slides';
+import type { SlideReport } from './slides';
+import { activityAttachments, attachmentLabel, attachmentProblems } from './attachments';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  id: string; // stable key for lists
+  severity: LintSeverity;
+  message: string;
+  activityId?: ID; // row to scroll to
+  sectionId?: ID; // section to scroll to when the issue is not about a single row
+}
+
+// Lunch starting further than this from the target time is reported
+export const LUNCH_TOLERANCE_MIN = 45;
+
+const norm = (s: string) => s.trim().toLowerCase();
+const isBreakRow = (r: ComputedRow) => r.type === 'break' || r.type === 'lunch' || (r.type === 'activity' && !!r.activity.isSystem);
+const isLunchRow = (r: ComputedRow) => r.type === 'lunch' || (r.type === 'activity' && !!r.activity.systemKey?.startsWith('lunch:'));
+
+// `slides` is the analyzeSlides report for the same activities, shared with the Slides panel
+export function lintSchedule(config: DayConfig, sections: Section[], activities: Activity[], computed: ComputedRow[], slides: SlideReport): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const sectionById = new Map(sections.map((s) => [s.id, s] as const));
+  const numberOfDays = Math.max(1, config.numberOfDays ?? 1);
+  const dayOf = (sectionId: ID | null) => (sectionId ? sectionById.get(sectionId)?.dayNumber ?? 1 : 1);
+  const label = (a: Activity) => `'${a.title || 'Untitled'}'`;
+
+  // Sections
+  // The parking lot is not timed, so neither it nor its activities are checked
+  const ordered = sections.filter((s) => !s.parkingLot).sort((a, b) => a.order - b.order);
+  for (const s of ordered) {
+    if ((s.dayNumber ?? 1) > numberOfDays) {
+      issues.push({ id: `day:${s.id}`, severity: 'error', sectionId: s.id, message: `Section '${s.name}' is on Day ${s.dayNumber}, but the agenda has ${numberOfDays} day${numberOfDays === 1 ? '' : 's'}` });
+    }
+    if (!activities.some((a) => a.sectionId === s.id)) {
+      issues.push({ id: `empty:${s.id}`, severity: 'warning', sectionId: s.id, message: `Section '${s.name}' has no activities` });
+    }
+  }
+
+  // Activities, in agenda order
+  const sectionOrder = new Map(ordered.map((s, i) => [s.id, i] as const));
+  const content = activities
+    .filter((a) => !a.isSystem && sectionOrder.has(a.sectionId))
+    .sort((a, b) => (sectionOrder.get(a.sectionId) ?? 0) - (sectionOrder.get(b.sectionId) ?? 0));
+  const seenTitles = new Map<string, Activity>();
+  for (const a of content) {
+    if (!(a.durationMin > 0)) issues.push({ id: `duration:${a.id}`, severity: 'error', activityId: a.id, message: `${label(a)} has no duration` });
+    if (!a.owner?.trim()) issues.push({ id: `owner:${a.id}`, severity: 'warning', activityId: a.id, message: `${label(a)} has no owner` });
+    for (const p of attachmentProblems(activityAttachments(a))) {
+      issues.push({
+        id: `file-${p.kind}:${a.id}:${p.attachment.id}`,
+        severity: 'warning',
+        activityId: a.id,
+        message: p.kind === 'empty' ? `${label(a)} has a file entry without a path` : `${label(a)} lists the file '${attachmentLabel(p.attachment)}' more than once`,
+      });
+    }
+    const key = norm(a.title);
+    if (!key) continue;
+    const first = seenTitles.get(key);
+    if (first) issues.push({ id: `duplicate:${a.id}`, severity: 'warning', activityId: a.id, message: `${label(a)} appears more than once` });
+    else seenTitles.set(key, a);
+  }
+
+  // Slides: one deck numbered across the agenda
+  for (const a of slides.unreadable) {
+    issues.push({ id: `slides:${a.id}`, severity: 'warning', activityId: a.id, message: `${label(a)} has slide text "${a.slideNumber}" that is not a range like 12-14 (up to slide ${MAX_SLIDE})` });
+  }
+  for (const o of slides.overlaps) {
+    issues.push({
+      id: `slide-overlap:${o.first.id}:${o.second.id}`,
+      severity: 'warning',
+      activityId: o.second.id,
+      message: `${label(o.second)} repeats slide${o.slides.from === o.slides.to ? '' : 's'} ${formatSlideRanges([o.slides])} from ${label(o.first)}`,
+    });
+  }
+  if (slides.missing.length) {
+    issues.push({ id: 'slides-missing', severity: 'warning', message: `No activity covers slide${slides.missing.length === 1 && slides.missing[0].from === slides.missing[0].to ? '' : 's'} ${formatSlideRanges(slides.missing)}` });
+  }
+
+  // Computed schedule, one pass per day and track (tracks are timed separately)
+  const lanes = new Map<string, ComputedRow[]>();
+  for (const r of computed) {
+    const section = r.sectionId ? sectionById.get(r.sectionId) : undefined;
+    const key = `${dayOf(r.sectionId)}|${section?.track?.trim() ?? ''}`;
+    lanes.set(key, [...(lanes.get(key) ?? []), r]);
+  }
+  const overDays = new Set<number>();
+  for (const [key, rows] of lanes) {
+    const day = Number(key.split('|')[0]);
+    const cfg = configForDay(config, day);
+    rows.sort((a, b) => a.startMin - b.startMin);
+
+    const late = rows.find((r) => r.type === 'activity' && r.endMin > cfg.dayEndMin);
+    if (late && late.type === 'activity' && !overDays.has(day)) {
+      overDays.add(day);
+      const end = Math.max(...rows.map((r) => r.endMin));
+      issues.push({
+        id: `overtime:${day}`,
+        severity: 'error',
+        activityId: late.activity.id,
+        message: `Day ${day} runs ${formatDuration(end - cfg.dayEndMin)} past the end of day (ends ${formatMin(end)}, ${formatMin(cfg.dayEndMin)} planned)`,
+      });
+    }
+
+    const interval = cfg.breakIntervalMin;
+    if (interval) {
+      let since = rows[0]?.startMin ?? cfg.dayStartMin;
+      let reported = false;
+      for (const r of rows) {
+        if (isBreakRow(r)) {
+          since = r.endMin;
+          reported = false;
+        } else if (r.type === 'activity' && !reported && r.endMin - since > interval) {
+          reported = true;
+          issues.push({
+            id: `break:${r.activity.id}`,
+            severity: 'warning',
+            activityId: r.activity.id,
+            message: `Day ${day}: ${formatDuration(r.endMin - since)} without a break by the end of ${label(r.activity)} (interval ${interval} min)`,
+          });
+        }
+      }
+    }
+
+    const target = cfg.lunchTargetMin;
+    const lunch = rows.find(isLunchRow);
+    if (target != null && lunch && Math.abs(lunch.startMin - target) > LUNCH_TOLERANCE_MIN) {
+      issues.push({
+        id: `lunch:${key}`,
+        severity: 'warning',
+        ...(lunch.type === 'activity' ? { activityId: lunch.activity.id } : { sectionId: lunch.sectionId ?? undefined }),
+        message: `Day ${day}: lunch starts at ${formatMin(lunch.startMin)}, ${formatDuration(Math.abs(lunch.startMin - target))} ${lunch.startMin > target ? 'after' : 'before'} the ${formatMin(target)} target`,
+      });
+    }
+  }
+
+  // Errors first, then in the order found
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
@@ -0,0 +1,154 @@
+// A small Markdown subset for activity details and notes: paragraphs, #–### headings, bulleted
+// and numbered lists (one level), **bold**, *italic*, `code` and [links](https://…).
+// Parsed into blocks that components/Markdown.tsx renders, and flattened to plain text for
+// the table preview, plain-text export and calendar descriptions.
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MdInline[] }
+  | { type: 'em'; children: MdInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string | null; children: MdInline[] }; // href is null for unsafe targets
+
+export type MdBlock =
+  | { type: 'paragraph'; lines: MdInline[][] }
+  | { type: 'heading'; level: 1 | 2 | 3; content: MdInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MdInline[][] };
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+
+// Only web and mail links are followed; "www." hosts get https
+export function safeHref(url: string): string | null {
+  const u = url.trim();
+  if (/^(https?:\/\/|mailto:)\S+$/i.test(u)) return u;
+  if (/^www\.\S+$/i.test(u)) return `https://${u}`;
+  return null;
+}
+
+export function parseMarkdown(text: string): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let paragraph: MdInline[][] | null = null;
+  let list: Extract<MdBlock, { type: 'list' }> | null = null;
+  const end = () => {
+    paragraph = null;
+    list = null;
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (!line.trim()) {
+      end();
+      continue;
+    }
+    const heading = HEADING.exec(line);
+    const bullet = BULLET.exec(line);
+    const numbered = NUMBERED.exec(line);
+    if (heading) {
+      end();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, content: parseInline(heading[2]) });
+    } else if (bullet || numbered) {
+      const ordered = !bullet;
+      const content = parseInline(bullet ? bullet[1] : numbered![2]);
+      if (!list || list.ordered !== ordered) {
+        end();
+        list = { type: 'list', ordered, start: numbered ? Number(numbered[1]) : 1, items: [] };
+        blocks.push(list);
+      }
+      list.items.push(content);
+    } else if (list && /^\s{2,}\S/.test(line)) {
+      // Indented continuation of the last list item
+      list.items[list.items.length - 1].push({ type: 'text', text: ' ' }, ...parseInline(line.trim()));
+    } else {
+      list = null;
+      if (!paragraph) {
+        paragraph = [];
+        blocks.push({ type: 'paragraph', lines: paragraph });
+      }
+      paragraph.push(parseInline(line.trim()));
+    }
+  }
+  return blocks;
+}
+
+// snake_case_names and 2*3*4 are not emphasis
+const intraword = (text: string, at: number, length: number, marker: string) => {
+  const before = /\w/.test(text[at - 1] ?? '');
+  return marker === '_' ? before : before && /\w/.test(text[at + length] ?? '');
+};
+
+// Inline markup; unmatched markers are kept as text
+export function parseInline(text: string): MdInline[] {
+  const out: MdInline[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) out.push({ type: 'text', text: plain });
+    plain = '';
+  };
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    let m: RegExpExecArray | null;
+    if (rest[0] === '\\' && rest.length > 1 && /[\\`*_[\]()#+\-.!]/.test(rest[1])) {
+      plain += rest[1];
+      i += 2;
+    } else if ((m = /^`([^`]+)`/.exec(rest))) {
+      flush();
+      out.push({ type: 'code', text: m[1] });
+      i += m[0].length;
+    } else if ((m = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(rest))) {
+      flush();
+      out.push({ type: 'link', href: safeHref(m[2]), children: parseInline(m[1]) });
+      i += m[0].length;
+    } else if ((m = /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/.exec(rest))) {
+      flush();
+      out.push({ type: 'strong', children: parseInline(m[2]) });
+      i += m[0].length;
+    } else if ((m = /^(\*|_)(?=\S)([\s\S]*?\S)\1/.exec(rest)) && !intraword(text, i, m[0].length, m[1])) {
+      flush();
+      out.push({ type: 'em', children: parseInline(m[2]) });
+      i += m[0].length;
+    } else if ((m = /^(https?:\/\/|www\.)[^\s<>()]+[^\s<>().,;:!?'"]/i.exec(rest)) && !/\w/.test(text[i - 1] ?? '')) {
+      // Bare web address
+      flush();
+      out.push({ type: 'link', href: safeHref(m[0]), children: [{ type: 'text', text: m[0] }] });
+      i += m[0].length;
+    } else {
+      plain += text[i];
+      i += 1;
+    }
+  }
+  flush();
+  return out;
+}
+
+export function inlineToPlainText(nodes: MdInline[], withUrls = false): string {
+  return nodes
+    .map((n) => {
+      if (n.type === 'text' || n.type === 'code') return n.text;
+      const inner = inlineToPlainText(n.children, withUrls);
+      if (n.type === 'link' && withUrls && n.href && inner !== n.href && `https://${inner}` !== n.href) return `${inner} (${n.href})`;
+      return inner;
+    })
+    .join('');
+}
+
+// Readable plain text: markup removed, lists as "• item" / "1. item", link addresses in parentheses
+export function markdownToPlainText(text: string): string {
+  return parseMarkdown(text)
+    .map((b) => {
+      if (b.type === 'heading') return inlineToPlainText(b.content, true);
+      if (b.type === 'paragraph') return b.lines.map((l) => inlineToPlainText(l, true)).join('\n');
+      return b.items.map((item, i) => `${b.ordered ? `${b.start + i}.` : '•'} ${inlineToPlainText(item, true)}`).join('\n');
+    })
+    .join('\n\n');
+}
+
+// One-line preview for table cells: plain text with lines joined by " · "
+export function markdownPreview(text: string): string {
+  return markdownToPlainText(text)
+    .split('\n')
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .join(' · ');
+}
@@ -0,0 +1,121 @@
+// Merge imported sections/activities into the current agenda instead of replacing it.
+import type { Activity, Person, Section } from '../models';
+import { findPerson, mergePeople } from './people';
+
+export type SectionMergeMode = 'match' | 'append'; // match existing sections by name, or always add new ones
+export type DuplicateMode = 'skip' | 'update'; // what to do with activities that already exist
+
+export interface MergeOptions {
+  sectionMode: SectionMergeMode;
+  duplicateMode: DuplicateMode;
+  targetDay?: number; // place all imported sections on this day; undefined keeps their own day numbers
+}
+
+export type MergeOutcome = 'added' | 'updated' | 'skipped';
+
+export interface MergeItem {
+  title: string;
+  section: string; // name of the section the activity lands in
+  outcome: MergeOutcome;
+  reason?: string;
+}
+
+export interface MergePlan {
+  sections: Section[];
+  activities: Activity[];
+  people: Person[];
+  items: MergeItem[];
+  addedSections: string[];
+  matchedSections: string[];
+  addedPeople: string[];
+  dayCount: number; // highest day number used after the merge
+}
+
+const makeId = () => Math.random().toString(36).slice(2, 9);
+const norm = (s: string) => s.trim().toLowerCase();
+
+// Fields copied from an imported activity when updating an existing one; ids, placement and
+// run-of-show state stay with the existing activity
+const CONTENT_FIELDS = ['title', 'owner', 'slideNumber', 'durationMin', 'minDurationMin', 'maxDurationMin', 'priority', 'files', 'attachments', 'details', 'notes', 'fixedStartMin'] as const;
+
+export function planMerge(
+  current: { sections: Section[]; activities: Activity[]; people?: Person[] },
+  incoming: { sections: Section[]; activities: Activity[]; people?: Person[] },
+  options: MergeOptions,
+): MergePlan {
+  const sections = current.sections.slice();
+  const activities = current.activities.slice();
+  const items: MergeItem[] = [];
+  const addedSections: string[] = [];
+  const matchedSections: string[] = [];
+  const sectionIds = new Set(sections.map((s) => s.id));
+  const activityIds = new Set(activities.map((a) => a.id));
+  let nextOrder = sections.reduce((max, s) => Math.max(max, s.order), 0) + 1;
+
+  // Map each imported section onto an existing or new section. The agenda has at most one
+  // parking lot, so an imported one always lands in the existing lot when there is one.
+  const targetSection = new Map<string, Section>();
+  for (const s of incoming.sections.slice().sort((a, b) => a.order - b.order)) {
+    const day = options.targetDay ?? s.dayNumber ?? 1;
+    const match = s.parkingLot
+      ? sections.find((e) => e.parkingLot)
+      : options.sectionMode === 'match'
+        ? sections.find((e) => !e.parkingLot && norm(e.name) === norm(s.name) && (e.dayNumber ?? 1) === day)
+        : undefined;
+    if (match) {
+      targetSection.set(s.id, match);
+      matchedSections.push(match.name);
+      continue;
+    }
+    const id = sectionIds.has(s.id) ? makeId() : s.id;
+    const created: Section = { id, name: s.name, order: nextOrder++, dayNumber: day, ...(s.track ? { track: s.track } : {}), ...(s.budgetMin ? { budgetMin: s.budgetMin } : {}), ...(s.parkingLot ? { parkingLot: true } : {}) };
+    sectionIds.add(id);
+    sections.push(created);
+    targetSection.set(s.id, created);
+    addedSections.push(s.name);
+  }
+
+  for (const a of incoming.activities) {
+    const section = targetSection.get(a.sectionId);
+    const title = a.title || '(untitled)';
+    if (!section) {
+      items.push({ title, section: '', outcome: 'skipped', reason: 'Section missing from the file' });
+      continue;
+    }
+    // Break/Lunch rows are regenerated by Update, so importing them would only duplicate
+    if (a.isSystem) {
+      items.push({ title, section: section.name, outcome: 'skipped', reason: 'Break/Lunch is added by Update' });
+      continue;
+    }
+    const byId = activities.findIndex((e) => e.id === a.id);
+    const existing = byId >= 0
+      ? byId
+      : activities.findIndex((e) => e.sectionId === section.id && !e.isSystem && norm(e.title) === norm(a.title) && a.title.trim() !== '');
+    if (existing >= 0) {
+      const reason = byId >= 0 ? 'Same id' : 'Same title in section';
+      if (options.duplicateMode === 'skip') {
+        items.push({ title, section: section.name, outcome: 'skipped', reason: `${reason} already exists` });
+        continue;
+      }
+      const next = { ...activities[existing] };
+      for (const field of CONTENT_FIELDS) (next as Record<string, unknown>)[field] = a[field];
+      activities[existing] = next;
+      items.push({ title, section: sections.find((s) => s.id === next.sectionId)?.name ?? section.name, outcome: 'updated', reason });
+      continue;
+    }
+    const id = activityIds.has(a.id) ? makeId() : a.id;
+    activityIds.add(id);
+    // parkedFromSectionId names a section of the imported file; point it at where that section landed
+    const { parkedFromSectionId: from, ...rest } = a;
+    const parkedFrom = section.parkingLot && from ? targetSection.get(from) : undefined;
+    activities.push({ ...rest, id, sectionId: section.id, ...(parkedFrom && !parkedFrom.parkingLot ? { parkedFromSectionId: parkedFrom.id } : {}) });
+    items.push({ title, section: section.name, outcome: 'added' });
+  }
+
+  // People are matched by name; existing entries keep their role, email and color
+  const people = mergePeople(current.people ?? [], incoming.people ?? []);
+  const addedPeople = (incoming.people ?? []).filter((p) => !findPerson(current.people ?? [], p.name)).map((p) => p.name);
+
+  const dayCount = sections.reduce((max, s) => Math.max(max, s.dayNumber ?? 1), 1);
+  return { sections, activities, people, items, addedSections, matchedSections, addedPeople, dayCount };
+}
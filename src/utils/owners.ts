@@ -0,0 +1,131 @@
+// Owner helpers: Activity.owner is free text, sometimes naming several people ("Ana, Ben" or "Ana & Ben")
+
+import { Activity, ComputedRow, Person, Section } from '../models';
+
+// Split an owner field into individual names. Commas (as written by joinOwners) always separate names;
+// ampersands, slashes, "+" and " and " only do when the text around them is not a name in `people`,
+// so registry names like "Q&A Team" or "Research and Development" stay whole.
+export function splitOwners(owner: string | undefined, people: Person[] = []): string[] {
+  const registered = new Set(people.map((p) => personKey(p.name)));
+  const names: string[] = [];
+  for (const part of (owner ?? '').split(',')) {
+    // Alternating name pieces and separators: ["Q", "&", "A Team", " and ", "Ana"]
+    const tokens = part.split(/(\s*(?:&|\/|\band\b|\+)\s*)/i);
+    for (let i = 0; i < tokens.length; i += 2) {
+      // Take the longest run of pieces starting here that is a registry name, else the single piece
+      let end = i;
+      for (let j = tokens.length - 1; j > i; j -= 2) {
+        if (registered.has(personKey(tokens.slice(i, j + 1).join('')))) {
+          end = j;
+          break;
+        }
+      }
+      names.push(tokens.slice(i, end + 1).join('').trim());
+      i = end;
+    }
+  }
+  return names.filter(Boolean);
+}
+
+// Matching key for a name: case, spaces and punctuation are ignored ("Speaker A" = "speakera")
+export function personKey(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+// True if the activity is run by the named person
+export function hasOwner(activity: Activity, owner: string, people: Person[] = []): boolean {
+  const key = personKey(owner);
+  return splitOwners(activity.owner, people).some((o) => personKey(o) === key);
+}
+
+// Distinct owner names across the agenda, keeping the first spelling seen
+export function listOwners(activities: Activity[], people: Person[] = []): string[] {
+  const seen = new Map<string, string>();
+  for (const a of activities) {
+    if (a.isSystem) continue;
+    for (const o of splitOwners(a.owner, people)) if (!seen.has(personKey(o))) seen.set(personKey(o), o);
+  }
+  return Array.from(seen.values()).sort((a, b) => a.localeCompare(b));
+}
+
+export interface OwnerSlot {
+  dayNumber: number;
+  startMin: number;
+  endMin: number;
+  title: string;
+}
+
+export interface OwnerSummary {
+  owner: string;
+  count: number; // activities owned
+  totalMin: number; // scheduled minutes across all days
+  first: OwnerSlot; // earliest slot
+  last: OwnerSlot; // latest slot
+}
+
+// Per-owner totals and first/last slot, computed from the scheduled rows across all days.
+// Names listed in `people` are reported with their registry spelling.
+export function summarizeOwners(rows: ComputedRow[], sections: Section[], people: Person[] = []): OwnerSummary[] {
+  const dayOf = new Map(sections.map((s) => [s.id, s.dayNumber ?? 1] as const));
+  const registered = new Map(people.map((p) => [personKey(p.name), p.name] as const));
+  const byOwner = new Map<string, OwnerSummary>();
+  for (const row of rows) {
+    if (row.type !== 'activity' || row.activity.isSystem) continue;
+    const slot: OwnerSlot = { dayNumber: dayOf.get(row.sectionId ?? '') ?? 1, startMin: row.startMin, endMin: row.endMin, title: row.activity.title };
+    for (const owner of splitOwners(row.activity.owner, people)) {
+      const key = personKey(owner);
+      const current = byOwner.get(key);
+      if (!current) {
+        byOwner.set(key, { owner: registered.get(key) ?? owner, count: 1, totalMin: row.endMin - row.startMin, first: slot, last: slot });
+        continue;
+      }
+      current.count += 1;
+      current.totalMin += row.endMin - row.startMin;
+      if (compareSlots(slot, current.first) < 0) current.first = slot;
+      if (compareSlots(slot, current.last) > 0) current.last = slot;
+    }
+  }
+  return Array.from(byOwner.values()).sort((a, b) => a.owner.localeCompare(b.owner));
+}
+
+function compareSlots(a: OwnerSlot, b: OwnerSlot): number {
+  return a.dayNumber - b.dayNumber || a.startMin - b.startMin;
+}
+
+export interface OwnerClash {
+  owner: string;
+  dayNumber: number;
+  first: { id: string; title: string; track: string };
+  second: { id: string; title: string; track: string };
+  startMin: number; // overlap
+  endMin: number;
+}
+
+// The same person scheduled in two tracks at overlapping times on the same day
+export function findOwnerClashes(rows: ComputedRow[], sections: Section[], people: Person[] = []): OwnerClash[] {
+  const sectionById = new Map(sections.map((s) => [s.id, s] as const));
+  const entries = rows
+    .filter((r): r is Extract<ComputedRow, { type: 'activity' }> => r.type === 'activity' && !r.activity.isSystem && r.endMin > r.startMin)
+    .map((r) => {
+      const section = sectionById.get(r.sectionId ?? '');
+      return { row: r, dayNumber: section?.dayNumber ?? 1, track: section?.track?.trim() || 'No track', owners: splitOwners(r.activity.owner, people) };
+    });
+  const clashes: OwnerClash[] = [];
+  entries.forEach((a, i) => {
+    for (const b of entries.slice(i + 1)) {
+      if (a.dayNumber !== b.dayNumber || a.track === b.track) continue;
+      if (!(a.row.startMin < b.row.endMin && b.row.startMin < a.row.endMin)) continue;
+      const shared = a.owners.find((o) => b.owners.some((p) => personKey(p) === personKey(o)));
+      if (!shared) continue;
+      clashes.push({
+        owner: shared,
+        dayNumber: a.dayNumber,
+        first: { id: a.row.activity.id, title: a.row.activity.title, track: a.track },
+        second: { id: b.row.activity.id, title: b.row.activity.title, track: b.track },
+        startMin: Math.max(a.row.startMin, b.row.startMin),
+        endMin: Math.min(a.row.endMin, b.row.endMin),
+      });
+    }
+  });
+  return clashes;
+}
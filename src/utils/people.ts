@@ -0,0 +1,88 @@
+// People registry: the agenda's list of owners. Activity.owner keeps plain names
+// (comma-separated for co-owners); the registry supplies their canonical spelling and details.
+
+import { Activity, Person } from '../models';
+import { personKey, splitOwners } from './owners';
+
+export const PERSON_COLORS = ['#2563eb', '#16a34a', '#d97706', '#dc2626', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+const makeId = () => Math.random().toString(36).slice(2, 9);
+
+export function findPerson(people: Person[], name: string): Person | undefined {
+  const key = personKey(name);
+  return key ? people.find((p) => personKey(p.name) === key) : undefined;
+}
+
+// First palette color not yet used, cycling once all are taken
+export function nextPersonColor(people: Person[]): string {
+  const used = new Set(people.map((p) => p.color));
+  return PERSON_COLORS.find((c) => !used.has(c)) ?? PERSON_COLORS[people.length % PERSON_COLORS.length];
+}
+
+export function createPerson(people: Person[], name: string, details: Partial<Omit<Person, 'id' | 'name'>> = {}): Person {
+  return { id: makeId(), name: name.trim(), color: nextPersonColor(people), ...details };
+}
+
+// Join owner names into an Activity.owner value, using registry spelling and dropping duplicates
+export function joinOwners(names: string[], people: Person[]): string {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const name of names) {
+    const canonical = findPerson(people, name)?.name ?? name.trim();
+    const key = personKey(canonical);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push(canonical);
+  }
+  return out.join(', ');
+}
+
+// Owner names used in activities that are not in the registry (first spelling seen)
+export function unlistedOwners(activities: Activity[], people: Person[]): string[] {
+  const seen = new Map<string, string>();
+  for (const a of activities) {
+    if (a.isSystem) continue;
+    for (const name of splitOwners(a.owner, people)) {
+      const key = personKey(name);
+      if (!findPerson(people, name) && !seen.has(key)) seen.set(key, name);
+    }
+  }
+  return Array.from(seen.values());
+}
+
+// Rewrite owners that name a registry person in another spelling ("speaker a" → "Speaker A").
+// Owners without such a match are left exactly as typed. Returns the same array when nothing changed.
+export function normalizeOwners(activities: Activity[], people: Person[]): Activity[] {
+  let changed = false;
+  const next = activities.map((a) => {
+    if (a.isSystem || !a.owner) return a;
+    const names = splitOwners(a.owner, people);
+    if (!names.some((n) => (findPerson(people, n)?.name ?? n) !== n)) return a;
+    const owner = joinOwners(names, people);
+    if (owner === a.owner) return a;
+    changed = true;
+    return { ...a, owner };
+  });
+  return changed ? next : activities;
+}
+
+// Replace one person's name in every activity's owner list. `people` is the registry before the
+// rename, so names containing "&", "/" or " and " are recognized whole.
+export function renameOwner(activities: Activity[], from: string, to: string, people: Person[] = []): Activity[] {
+  const key = personKey(from);
+  return activities.map((a) => {
+    const names = splitOwners(a.owner, people);
+    if (!names.some((n) => personKey(n) === key)) return a;
+    return { ...a, owner: joinOwners(names.map((n) => (personKey(n) === key ? to : n)), []) };
+  });
+}
+
+// Add people missing from `into` (matched by name); existing entries keep their details
+export function mergePeople(into: Person[], incoming: Person[]): Person[] {
+  const out = into.slice();
+  for (const p of incoming) {
+    if (findPerson(out, p.name)) continue;
+    out.push(out.some((e) => e.id === p.id) ? { ...p, id: makeId() } : p);
+  }
+  return out;
+}
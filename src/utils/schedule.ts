@@ -1,4 +1,6 @@
 import { Activity, ComputedActivityRow, ComputedBreakRow, ComputedOverflowRow, ComputedRow, DayConfig, ID, Section, Injection } from '../models';
+import { minOfDay } from './time';
+import { dateForDay, toIsoDate } from './dates';
 
 // Compute a flat, ordered sequence of rows (activities with auto-inserted breaks/lunch),
 // and map rows to their display section. Break/lunch rows are computed only (not draggable).
@@ -372,46 +374,142 @@ export function buildScheduleWithInjections(
   return rows;
 }
 
+// Effective settings for one day: the global config with that day's overrides applied
+export function configForDay<T extends Pick<DayConfig, 'dayStartMin' | 'dayEndMin' | 'dayOverrides'>>(config: T, dayNumber: number): T {
+  const override = config.dayOverrides?.[dayNumber];
+  if (!override) return config;
+  const patch = Object.fromEntries(Object.entries(override).filter(([, v]) => v != null));
+  return { ...config, ...patch };
+}
+
+// Sections of one day that are timed together. A block with several lanes is a run of
+// consecutive sections in tracks (rooms): each lane is one track and all lanes start together;
+// the block ends when its longest lane does. Sections without a track form single-lane blocks.
+export interface SectionBlock {
+  dayNumber: number;
+  lanes: { track: string | null; sections: Section[] }[];
+}
+
+// Order sections by day then order and group them into blocks. The parking lot is not part of
+// any day, so it is left out (and with it from timing, breaks, budgets and print).
+export function groupSectionsByTrack(sections: Section[]): SectionBlock[] {
+  const ordered = sections.filter((s) => !s.parkingLot).sort((a, b) => {
+    const ad = a.dayNumber ?? 1;
+    const bd = b.dayNumber ?? 1;
+    if (ad !== bd) return ad - bd;
+    return a.order - b.order;
+  });
+  const blocks: SectionBlock[] = [];
+  for (const section of ordered) {
+    const dayNumber = section.dayNumber ?? 1;
+    const track = section.track?.trim() || null;
+    const last = blocks[blocks.length - 1];
+    const sameRun = last && last.dayNumber === dayNumber && (last.lanes[0].track === null) === (track === null);
+    if (!sameRun) {
+      blocks.push({ dayNumber, lanes: [{ track, sections: [section] }] });
+      continue;
+    }
+    const lane = last.lanes.find((l) => l.track === track);
+    if (lane) lane.sections.push(section);
+    else last.lanes.push({ track, sections: [section] });
+  }
+  return blocks;
+}
+
+// Wall clock for run of show. With a clock, recorded actual times only count on the date they
+// were recorded (and, when the agenda has dates, only for the agenda day on that date);
+// older ones are ignored so yesterday's run does not drive today's forecast.
+export interface LiveClock {
+  nowMin: number; // minutes from midnight
+  today: string; // local date (YYYY-MM-DD)
+}
+
+export function liveClock(now: number): LiveClock {
+  return { nowMin: minOfDay(now), today: toIsoDate(new Date(now)) };
+}
+
 // Build schedule purely from activities, respecting day boundaries and treating Lunch as a break period
 // for the purposes of post-lunch break interval timing.
+//
+// Run of show: activities with actualStartAt/actualEndAt use the recorded clock times, and every
+// later row on that day is re-forecast from them. When a clock is given, a running activity is
+// projected to end no earlier than now, and pending rows after it cannot start before now.
+// plannedStartMin/plannedEndMin always carry the times per plan so callers can show drift.
+//
+// Pinned activities (fixedStartMin) hold their time: a gap row fills idle time before them,
+// and a conflict row marks the overlap when earlier content runs into them.
+//
+// Tracks: the lanes of a parallel block (see groupSectionsByTrack) are each timed from the
+// block's start, and the day continues after the longest lane. Parked activities get no rows.
 export function buildScheduleFromActivities(
-  config: Pick<DayConfig, 'dayStartMin' | 'dayEndMin' | 'numberOfDays'>,
+  config: Pick<DayConfig, 'dayStartMin' | 'dayEndMin' | 'numberOfDays' | 'dayOverrides' | 'startDate' | 'skipWeekends' | 'skippedDates'>,
   sections: Section[],
   activities: Activity[],
+  clock?: LiveClock,
 ): ComputedRow[] {
-  // Order sections by day then order; fallback to order when dayNumber missing
-  const orderedSections = [...sections].sort((a, b) => {
-    const ad = a.dayNumber ?? 1;
-    const bd = b.dayNumber ?? 1;
-    if (ad !== bd) return ad - bd;
-    return a.order - b.order;
-  });
-  const bySection = new Map<ID, Activity[]>(orderedSections.map((s) => [s.id, []]));
+  const nowMin = clock?.nowMin;
+  const bySection = new Map<ID, Activity[]>(sections.map((s) => [s.id, []]));
   for (const a of activities) bySection.get(a.sectionId)?.push(a);
 
+  type Clock = {
+    clock: number;
+    planClock: number;
+    live: boolean; // an actual time was recorded earlier on the current day
+  };
+
   const rows: ComputedRow[] = [];
-  const dayLen = Math.max(1, config.dayEndMin - config.dayStartMin);
-  const numDays = Math.max(1, config.numberOfDays ?? 1);
-  let dayIndex = 0;
-  let clock = config.dayStartMin;
-  let minutesSinceBreak = 0;
-  let currentDayNumber = orderedSections.length ? (orderedSections[0].dayNumber ?? 1) : 1;
+  let currentDayNumber: number | null = null;
+  let day: Clock = { clock: 0, planClock: 0, live: false };
+  let dayIsToday = true; // whether the current agenda day can have live actual times
 
-  for (const section of orderedSections) {
-    const secDay = section.dayNumber ?? currentDayNumber;
-    if (secDay !== currentDayNumber) {
-      // New day: reset clock and break timer
-      currentDayNumber = secDay;
-      dayIndex = secDay - 1;
-      clock = config.dayStartMin;
-      minutesSinceBreak = 0;
-    }
+  const hasActual = (a: Activity) => a.actualStartAt != null && (!clock || (dayIsToday && toIsoDate(new Date(a.actualStartAt)) === clock.today));
+
+  const placeSection = (section: Section, lane: Clock) => {
     const list = bySection.get(section.id) || [];
     for (const activity of list) {
       // Do not move to next day mid-section; allow overtime to continue.
 
-      const startMin = clock;
-      const endMin = clock + activity.durationMin;
+      const pinned = activity.fixedStartMin;
+      const plannedStartMin = pinned ?? lane.planClock;
+      const plannedEndMin = plannedStartMin + activity.durationMin;
+      lane.planClock = plannedEndMin;
+
+      let startMin: number;
+      let endMin: number;
+      const actual = hasActual(activity);
+      if (pinned != null && !actual) {
+        if (lane.clock < pinned) {
+          rows.push({
+            id: `gap-${activity.id}`,
+            type: 'gap',
+            sectionId: section.id,
+            startMin: lane.clock,
+            endMin: pinned,
+            computed: true,
+            label: `Open time (${pinned - lane.clock} min)`,
+          });
+        } else if (lane.clock > pinned) {
+          rows.push({
+            id: `conflict-${activity.id}`,
+            type: 'conflict',
+            sectionId: section.id,
+            startMin: pinned,
+            endMin: lane.clock,
+            computed: true,
+            label: `Runs ${lane.clock - pinned} min into pinned "${activity.title}"`,
+          });
+        }
+        startMin = pinned;
+        endMin = pinned + activity.durationMin;
+      } else if (actual) {
+        startMin = minOfDay(activity.actualStartAt!);
+        if (activity.actualEndAt != null) endMin = Math.max(startMin, minOfDay(activity.actualEndAt));
+        else endMin = Math.max(startMin + activity.durationMin, nowMin ?? 0);
+        lane.live = true;
+      } else {
+        startMin = lane.live && nowMin != null ? Math.max(lane.clock, nowMin) : lane.clock;
+        endMin = startMin + activity.durationMin;
+      }
       rows.push({
         id: activity.id,
         type: 'activity',
@@ -420,17 +518,255 @@ export function buildScheduleFromActivities(
         startMin,
         endMin,
         activity,
+        plannedStartMin,
+        plannedEndMin,
+        ...(actual ? { live: true } : {}),
       });
-      clock = endMin;
+      lane.clock = endMin;
+    }
+  };
 
-      // Reset break interval timer on Lunch; otherwise accumulate
-      if (activity.isSystem && activity.systemKey?.startsWith('lunch:day')) {
-        minutesSinceBreak = 0;
-      } else {
-        minutesSinceBreak += activity.durationMin;
-      }
+  for (const block of groupSectionsByTrack(sections)) {
+    if (block.dayNumber !== currentDayNumber) {
+      // New day: reset the clock
+      currentDayNumber = block.dayNumber;
+      const start = configForDay(config, block.dayNumber).dayStartMin;
+      day = { clock: start, planClock: start, live: false };
+      dayIsToday = !clock || (dateForDay(config, block.dayNumber) ?? clock.today) === clock.today;
     }
+    const lanes = block.lanes.map(() => ({ ...day }));
+    block.lanes.forEach((lane, i) => lane.sections.forEach((section) => placeSection(section, lanes[i])));
+    day = {
+      clock: Math.max(...lanes.map((l) => l.clock)),
+      planClock: Math.max(...lanes.map((l) => l.planClock)),
+      live: lanes.some((l) => l.live),
+    };
   }
 
   return rows;
 }
+
+export interface RunOfShowStatus {
+  dayNumber: number;
+  driftMin: number; // positive = behind plan, negative = ahead
+  projectedEndMin: number; // forecast end of the live day
+  currentId: ID | null; // running activity, if any
+}
+
+// When each day ends, overall and per track ('' = sections without a track)
+export interface DayEnd {
+  endMin: number;
+  lanes: Map<string, number>;
+}
+
+export function dayEndTimes(rows: ComputedRow[], sections: Section[]): Map<number, DayEnd> {
+  const sectionById = new Map(sections.map((s) => [s.id, s] as const));
+  const byDay = new Map<number, DayEnd>();
+  for (const r of rows) {
+    const section = r.sectionId ? sectionById.get(r.sectionId) : undefined;
+    if (r.type === 'overflow' || !section) continue;
+    const day = section.dayNumber ?? 1;
+    const entry = byDay.get(day) ?? { endMin: 0, lanes: new Map<string, number>() };
+    entry.endMin = Math.max(entry.endMin, r.endMin);
+    const track = section.track?.trim() ?? '';
+    entry.lanes.set(track, Math.max(entry.lanes.get(track) ?? 0, r.endMin));
+    byDay.set(day, entry);
+  }
+  return byDay;
+}
+
+// The track whose end decides when the day ends (null when the day has no tracks)
+export function longestTrack(end: DayEnd): string | null {
+  return Array.from(end.lanes).filter(([t]) => t).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+// Summarize the live day: the latest day with a recorded actual start.
+// Drift is taken at the running activity, or at the next pending one once the last has finished.
+export function summarizeRunOfShow(rows: ComputedRow[], sections: Section[]): RunOfShowStatus | null {
+  const dayBySection = new Map(sections.map((s) => [s.id, s.dayNumber ?? 1] as const));
+  const activityRows = rows.filter((r): r is ComputedActivityRow => r.type === 'activity');
+  const started = activityRows.filter((r) => r.live);
+  if (!started.length) return null;
+
+  const dayNumber = Math.max(...started.map((r) => dayBySection.get(r.sectionId ?? '') ?? 1));
+  const dayRows = activityRows.filter((r) => (dayBySection.get(r.sectionId ?? '') ?? 1) === dayNumber);
+  const current = dayRows.find((r) => r.live && r.activity.actualEndAt == null) ?? null;
+  const pending = dayRows.find((r) => !r.live && !r.activity.completed);
+  const probe = current ?? pending ?? dayRows[dayRows.length - 1];
+
+  return {
+    dayNumber,
+    driftMin: probe.endMin - (probe.plannedEndMin ?? probe.endMin),
+    projectedEndMin: dayRows.length ? Math.max(...dayRows.map((r) => r.endMin)) : 0,
+    currentId: current?.id ?? null,
+  };
+}
+
+// A single proposed change to the materialized Break/Lunch activities.
+export interface SystemChange {
+  kind: 'insert' | 'move' | 'update' | 'remove';
+  systemKey: string;
+  label: string; // "Break" or "Lunch"
+  dayNumber: number;
+  durationMin: number;
+  beforeTitle?: string; // title of the activity the row is placed before (if any)
+}
+
+export interface SystemActivityPlan {
+  activities: Activity[]; // full activity list with system rows inserted/updated/removed
+  changes: SystemChange[];
+}
+
+const makeId = () => Math.random().toString(36).slice(2, 9);
+
+// Stable keys for system activities, e.g. "lunch:day2" and "break:day1:2".
+// Rows in a track get the track in their key ("break:day1:room-a:2") so each lane keeps its own.
+const trackSlug = (track: string) => track.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'track';
+export const lunchKey = (day: number, track?: string | null) => (track ? `lunch:day${day}:${trackSlug(track)}` : `lunch:day${day}`);
+export const breakKey = (day: number, n: number, track?: string | null) =>
+  track ? `break:day${day}:${trackSlug(track)}:${n}` : `break:day${day}:${n}`;
+
+// Plan where Break/Lunch activities belong for each day and reconcile them with the
+// system activities already in the list. Existing rows are matched by systemKey and
+// updated in place (keeping id, notes, completed); unmatched system rows are removed.
+//
+// Per day (sections grouped by dayNumber, using that day's overrides):
+// - Lunch goes on the activity boundary closest to lunchTargetMin.
+// - A Break goes before an activity that would push time since the last break/lunch past breakIntervalMin.
+// - If lunch is configured but the day's content ends before the target, lunch is appended at the end.
+// Parallel tracks are planned lane by lane, each from the block's start.
+export function planSystemActivities(
+  config: DayConfig,
+  sections: Section[],
+  activities: Activity[],
+): SystemActivityPlan {
+  const userActivities = activities.filter((a) => !a.isSystem);
+  const bySection = new Map<ID, Activity[]>(sections.map((s) => [s.id, []]));
+  for (const a of userActivities) bySection.get(a.sectionId)?.push(a);
+
+  const existingByKey = new Map<string, Activity>();
+  for (const a of activities) {
+    if (a.isSystem && a.systemKey && !existingByKey.has(a.systemKey)) existingByKey.set(a.systemKey, a);
+  }
+
+  type Desired = { key: string; label: 'Break' | 'Lunch'; dayNumber: number; durationMin: number; sectionId: ID; beforeId: ID | null };
+  const desired: Desired[] = [];
+  type Lane = { clock: number; minutesSinceBreak: number; lunchPlaced: boolean; lastSectionWithContent: ID | null };
+
+  const blocks = groupSectionsByTrack(sections);
+  const days = Array.from(new Set(blocks.map((b) => b.dayNumber)));
+  for (const day of days) {
+    const dayCfg = configForDay(config, day);
+    const wantsBreaks = !!dayCfg.breakIntervalMin && !!dayCfg.breakDurationMin;
+    const wantsLunch = dayCfg.lunchTargetMin != null && !!dayCfg.lunchDurationMin;
+    const breakCount = new Map<string, number>(); // per track ('' = no track)
+    let main: Lane = { clock: dayCfg.dayStartMin, minutesSinceBreak: 0, lunchPlaced: false, lastSectionWithContent: null };
+
+    const planLane = (lane: Lane, track: string | null, daySections: Section[]) => {
+      for (const section of daySections) {
+        const list = bySection.get(section.id) || [];
+        for (const activity of list) {
+          // Idle time before a pinned activity counts as a break when it is long enough
+          if (activity.fixedStartMin != null && activity.fixedStartMin > lane.clock) {
+            if (wantsBreaks && activity.fixedStartMin - lane.clock >= dayCfg.breakDurationMin!) lane.minutesSinceBreak = 0;
+            lane.clock = activity.fixedStartMin;
+          }
+          const target = dayCfg.lunchTargetMin!;
+          const lunchHere =
+            wantsLunch &&
+            !lane.lunchPlaced &&
+            (lane.clock >= target ||
+              (lane.clock + activity.durationMin > target && target - lane.clock <= lane.clock + activity.durationMin - target));
+
+          if (lunchHere) {
+            desired.push({ key: lunchKey(day, track), label: 'Lunch', dayNumber: day, durationMin: dayCfg.lunchDurationMin!, sectionId: section.id, beforeId: activity.id });
+            lane.clock += dayCfg.lunchDurationMin!;
+            lane.minutesSinceBreak = 0;
+            lane.lunchPlaced = true;
+          } else if (wantsBreaks && lane.minutesSinceBreak > 0 && lane.minutesSinceBreak + activity.durationMin > dayCfg.breakIntervalMin!) {
+            const n = (breakCount.get(track ?? '') ?? 0) + 1;
+            breakCount.set(track ?? '', n);
+            desired.push({ key: breakKey(day, n, track), label: 'Break', dayNumber: day, durationMin: dayCfg.breakDurationMin!, sectionId: section.id, beforeId: activity.id });
+            lane.clock += dayCfg.breakDurationMin!;
+            lane.minutesSinceBreak = 0;
+          }
+
+          lane.clock += activity.durationMin;
+          lane.minutesSinceBreak += activity.durationMin;
+          lane.lastSectionWithContent = section.id;
+        }
+      }
+    };
+
+    for (const block of blocks.filter((b) => b.dayNumber === day)) {
+      const lanes = block.lanes.map(() => ({ ...main }));
+      block.lanes.forEach((l, i) => planLane(lanes[i], l.track, l.sections));
+      const longest = lanes.reduce((a, b) => (b.clock > a.clock ? b : a));
+      main = {
+        clock: longest.clock,
+        minutesSinceBreak: Math.max(...lanes.map((l) => l.minutesSinceBreak)),
+        lunchPlaced: lanes.some((l) => l.lunchPlaced),
+        lastSectionWithContent: longest.lastSectionWithContent ?? main.lastSectionWithContent,
+      };
+    }
+
+    if (wantsLunch && !main.lunchPlaced && main.lastSectionWithContent && dayCfg.lunchTargetMin! < dayCfg.dayEndMin) {
+      desired.push({ key: lunchKey(day), label: 'Lunch', dayNumber: day, durationMin: dayCfg.lunchDurationMin!, sectionId: main.lastSectionWithContent, beforeId: null });
+    }
+  }
+
+  // Where an activity currently sits: its section and the next non-system activity after it in that section
+  const anchorOf = (list: Activity[], id: ID): { sectionId: ID; beforeId: ID | null } | null => {
+    const idx = list.findIndex((a) => a.id === id);
+    if (idx < 0) return null;
+    const sectionId = list[idx].sectionId;
+    for (let i = idx + 1; i < list.length; i++) {
+      if (list[i].sectionId === sectionId && !list[i].isSystem) return { sectionId, beforeId: list[i].id };
+    }
+    return { sectionId, beforeId: null };
+  };
+
+  const titleById = new Map(userActivities.map((a) => [a.id, a.title] as const));
+  const changes: SystemChange[] = [];
+  const next = userActivities.slice();
+  const usedIds = new Set<ID>();
+
+  for (const d of desired) {
+    const existing = existingByKey.get(d.key);
+    const row: Activity = existing
+      ? { ...existing, durationMin: d.durationMin, sectionId: d.sectionId }
+      : { id: makeId(), title: d.label, owner: '', durationMin: d.durationMin, sectionId: d.sectionId, isSystem: true, systemKey: d.key };
+
+    if (d.beforeId) {
+      next.splice(next.findIndex((a) => a.id === d.beforeId), 0, row);
+    } else {
+      let lastIdx = -1;
+      next.forEach((a, i) => { if (a.sectionId === d.sectionId) lastIdx = i; });
+      next.splice(lastIdx + 1, 0, row);
+    }
+
+    const change = { systemKey: d.key, label: d.label, dayNumber: d.dayNumber, durationMin: d.durationMin, beforeTitle: d.beforeId ? titleById.get(d.beforeId) : undefined };
+    if (!existing) {
+      changes.push({ kind: 'insert', ...change });
+    } else {
+      usedIds.add(existing.id);
+      const was = anchorOf(activities, existing.id);
+      if (!was || was.sectionId !== d.sectionId || was.beforeId !== d.beforeId) changes.push({ kind: 'move', ...change });
+      else if (existing.durationMin !== d.durationMin) changes.push({ kind: 'update', ...change });
+    }
+  }
+
+  for (const a of activities) {
+    if (!a.isSystem || usedIds.has(a.id)) continue;
+    const section = sections.find((s) => s.id === a.sectionId);
+    changes.push({
+      kind: 'remove',
+      systemKey: a.systemKey ?? a.id,
+      label: a.title,
+      dayNumber: section?.dayNumber ?? 1,
+      durationMin: a.durationMin,
+    });
+  }
+
+  return { activities: next, changes };
+}
@@ -0,0 +1,72 @@
+// Share links: the full PersistedState, compressed into the URL hash (#share=...).
+// Links are decoded without touching localStorage so recipients can view them read-only.
+
+import { PersistedState } from './storage';
+import { validatePersistedState } from './validate';
+
+const SHARE_PARAM = 'share';
+// Payload prefixes: "z." deflate-compressed JSON, "j." plain JSON (browsers without CompressionStream)
+const DEFLATE = 'z.';
+const PLAIN = 'j.';
+
+// Encoded payload from the current URL hash, if this is a share link
+export function readShareHash(hash: string = window.location.hash): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(SHARE_PARAM);
+}
+
+// Build a share URL for the given state based on the current page (print switch removed)
+export async function buildShareUrl(state: PersistedState): Promise<string> {
+  const url = new URL(window.location.href);
+  url.searchParams.delete('print');
+  url.hash = `${SHARE_PARAM}=${await encodeState(state)}`;
+  return url.toString();
+}
+
+export async function encodeState(state: PersistedState): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(state));
+  if (typeof CompressionStream === 'undefined') return PLAIN + toBase64Url(bytes);
+  const compressed = await pipeThrough(bytes, new CompressionStream('deflate-raw'));
+  return DEFLATE + toBase64Url(compressed);
+}
+
+export async function decodeState(encoded: string): Promise<PersistedState | null> {
+  try {
+    let bytes: Uint8Array;
+    if (encoded.startsWith(DEFLATE)) {
+      bytes = await pipeThrough(fromBase64Url(encoded.slice(DEFLATE.length)), new DecompressionStream('deflate-raw'));
+    } else if (encoded.startsWith(PLAIN)) {
+      bytes = fromBase64Url(encoded.slice(PLAIN.length));
+    } else {
+      return null;
+    }
+    // Links are untrusted input: run them through the same checks and repairs as an imported file
+    const report = validatePersistedState(JSON.parse(new TextDecoder().decode(bytes)));
+    if (!report.state) console.warn('Rejected share link', report.issues);
+    return report.state;
+  } catch (err) {
+    console.warn('Failed to decode share link', err);
+    return null;
+  }
+}
+
+async function pipeThrough(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const b64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
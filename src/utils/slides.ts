@@ -0,0 +1,167 @@
+// Slide ranges: Activity.slideNumber is free text ("12-14", "3, 7-9", "Slides 4–15"). These helpers
+// read it as ranges of one deck numbered across the whole agenda, to find overlaps and missing
+// slides, work out pacing and renumber ranges when slides are inserted or removed.
+
+import { Activity, Section } from '../models';
+
+export interface SlideRange {
+  from: number;
+  to: number; // inclusive
+}
+
+// Highest slide number read; larger numbers are treated as typos (unreadable text)
+export const MAX_SLIDE = 9999;
+
+// Parse slide text into ranges; null when the text is not empty but cannot be read
+export function parseSlideRanges(text: string | undefined): SlideRange[] | null {
+  const v = (text ?? '').trim().replace(/^(?:slides?|s\.?|#)\s*/i, '');
+  if (!v) return [];
+  const ranges: SlideRange[] = [];
+  for (const part of v.split(/\s*[,;]\s*/)) {
+    const m = /^(\d+)\s*(?:(?:-|–|—|to)\s*(\d+))?$/i.exec(part);
+    if (!m) return null;
+    const from = Number(m[1]);
+    const to = m[2] != null ? Number(m[2]) : from;
+    if (to < from || to > MAX_SLIDE) return null;
+    ranges.push({ from, to });
+  }
+  return ranges;
+}
+
+// "3, 7-9"
+export function formatSlideRanges(ranges: SlideRange[]): string {
+  return ranges.map((r) => (r.from === r.to ? String(r.from) : `${r.from}-${r.to}`)).join(', ');
+}
+
+export function countSlides(ranges: SlideRange[]): number {
+  return ranges.reduce((sum, r) => sum + r.to - r.from + 1, 0);
+}
+
+// Sorted ranges with overlapping and adjacent ones joined
+export function mergeSlideRanges(ranges: SlideRange[]): SlideRange[] {
+  const merged: SlideRange[] = [];
+  for (const r of ranges.slice().sort((a, b) => a.from - b.from)) {
+    const last = merged[merged.length - 1];
+    if (last && r.from <= last.to + 1) last.to = Math.max(last.to, r.to);
+    else merged.push({ ...r });
+  }
+  return merged;
+}
+
+// Minutes per slide for an activity, or null without slides
+export function slidePace(a: Activity): number | null {
+  const ranges = parseSlideRanges(a.slideNumber);
+  const count = ranges ? countSlides(ranges) : 0;
+  return count ? a.durationMin / count : null;
+}
+
+export interface SlideOverlap {
+  first: Activity;
+  second: Activity;
+  slides: SlideRange;
+}
+
+export interface PaceAdvice {
+  activity: Activity;
+  slides: number;
+  paceMin: number; // current minutes per slide
+  suggestedMin: number; // duration at the agenda's typical pace
+}
+
+export interface SlideReport {
+  activities: number; // activities with slides
+  slides: number; // total slides covered
+  maxSlide: number;
+  overlaps: SlideOverlap[];
+  missing: SlideRange[]; // slides between 1 and the highest one that no activity covers
+  unreadable: Activity[]; // slide text that is not a range
+  typicalPaceMin: number | null; // median minutes per slide across the agenda
+  advice: PaceAdvice[]; // activities paced at less than half or more than double the typical pace
+}
+
+// Activities with slide text, in agenda order (Break/Lunch and the parking lot are left out)
+function slideActivities(activities: Activity[], sections: Section[]): Activity[] {
+  const order = new Map(sections.filter((s) => !s.parkingLot).map((s) => [s.id, s.order] as const));
+  return activities
+    .filter((a) => !a.isSystem && order.has(a.sectionId) && a.slideNumber?.trim())
+    .sort((a, b) => order.get(a.sectionId)! - order.get(b.sectionId)!);
+}
+
+export function analyzeSlides(activities: Activity[], sections: Section[]): SlideReport {
+  const withSlides = slideActivities(activities, sections);
+  const unreadable: Activity[] = [];
+  const parsed: { activity: Activity; ranges: SlideRange[] }[] = [];
+  for (const a of withSlides) {
+    const ranges = parseSlideRanges(a.slideNumber);
+    if (ranges) parsed.push({ activity: a, ranges });
+    else unreadable.push(a);
+  }
+
+  const overlaps: SlideOverlap[] = [];
+  for (let i = 0; i < parsed.length; i++) {
+    for (let j = i + 1; j < parsed.length; j++) {
+      for (const r of parsed[i].ranges) {
+        const hit = parsed[j].ranges.find((o) => o.from <= r.to && r.from <= o.to);
+        if (hit) {
+          overlaps.push({ first: parsed[i].activity, second: parsed[j].activity, slides: { from: Math.max(r.from, hit.from), to: Math.min(r.to, hit.to) } });
+          break;
+        }
+      }
+    }
+  }
+
+  // Coverage and gaps from the merged intervals, so a long range costs no more than a short one
+  const covered = mergeSlideRanges(parsed.flatMap((p) => p.ranges));
+  const maxSlide = covered.length ? covered[covered.length - 1].to : 0;
+  const missing: SlideRange[] = [];
+  let next = 1;
+  for (const r of covered) {
+    if (r.from > next) missing.push({ from: next, to: r.from - 1 });
+    next = r.to + 1;
+  }
+
+  const paced = parsed
+    .map(({ activity, ranges }) => ({ activity, slides: countSlides(ranges) }))
+    .filter((p) => p.slides > 0 && p.activity.durationMin > 0)
+    .map((p) => ({ ...p, paceMin: p.activity.durationMin / p.slides }));
+  const sorted = paced.map((p) => p.paceMin).sort((a, b) => a - b);
+  const typicalPaceMin = sorted.length ? sorted[Math.floor(sorted.length / 2)] : null;
+  const advice: PaceAdvice[] = typicalPaceMin
+    ? paced
+        .filter((p) => p.paceMin < typicalPaceMin / 2 || p.paceMin > typicalPaceMin * 2)
+        .map((p) => ({ ...p, suggestedMin: Math.max(5, Math.round((p.slides * typicalPaceMin) / 5) * 5) }))
+    : [];
+
+  return { activities: parsed.length, slides: countSlides(covered), maxSlide, overlaps, missing, unreadable, typicalPaceMin, advice };
+}
+
+// Renumber after slides were inserted (count > 0) or removed (count < 0) right after slide `after`.
+// Later ranges shift; a range running across the insertion point grows, one losing slides shrinks.
+// Returns only the activities whose slide text changed.
+export function shiftSlides(activities: Activity[], after: number, count: number): Activity[] {
+  const changed: Activity[] = [];
+  for (const a of activities) {
+    const ranges = parseSlideRanges(a.slideNumber);
+    if (!ranges || !ranges.length) continue;
+    const next = ranges
+      .map((r) => (count >= 0 ? insertInto(r, after, count) : removeFrom(r, after, -count)))
+      .filter((r): r is SlideRange => !!r);
+    const text = formatSlideRanges(next);
+    if (text !== formatSlideRanges(ranges)) changed.push({ ...a, slideNumber: text });
+  }
+  return changed;
+}
+
+function insertInto(r: SlideRange, after: number, count: number): SlideRange {
+  if (r.from > after) return { from: r.from + count, to: r.to + count };
+  if (r.to > after) return { from: r.from, to: r.to + count };
+  return r;
+}
+
+// Slides after+1 .. after+count are gone; null when the whole range was removed
+function removeFrom(r: SlideRange, after: number, count: number): SlideRange | null {
+  const shift = (n: number) => (n > after + count ? n - count : Math.min(n, after));
+  if (r.from > after && r.to <= after + count) return null;
+  const from = r.from > after + count ? r.from - count : r.from > after ? after + 1 : r.from;
+  return { from, to: Math.max(from, shift(r.to)) };
+}
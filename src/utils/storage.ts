@@ -1,7 +1,12 @@
 // Simple localStorage persistence and JSON import/export helpers
 // These functions centralize state serialization for the Agenda Mover app.
 
-import { Activity, DayConfig, Section, Injection, ID } from '../models';
+import { Activity, DayConfig, Section, Injection, ID, Person } from '../models';
+import { dateForDay } from './dates';
+import { splitOwners } from './owners';
+import { findPerson } from './people';
+import { activityAttachments, formatAttachmentList } from './attachments';
+import type { TimeFormat } from './time';
 
 export const STORAGE_KEY = 'agenda-mover/state/v1';
 export const PREFS_KEY = 'agenda-mover/prefs/v2';
@@ -19,6 +24,7 @@ export type PersistedState =
       activities: Activity[];
       config: DayConfig;
       injections: Injection[];
+      people?: Person[]; // owner registry; absent in files saved before it existed
     };
 
 // Save current state to localStorage
@@ -51,11 +57,205 @@ export function clearState() {
   } catch {}
 }
 
+// Agenda library: several named agendas in one browser.
+// The index lives under LIBRARY_KEY; each agenda document is stored under its own key.
+export const LIBRARY_KEY = 'agenda-mover/library/v1';
+const agendaKey = (id: ID) => `agenda-mover/agenda/${id}`;
+
+export interface AgendaMeta {
+  id: ID;
+  name: string;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms of the last content change
+}
+
+export interface AgendaLibrary {
+  version: 1;
+  activeId: ID;
+  agendas: AgendaMeta[];
+}
+
+// View preferences that belong to one agenda rather than the browser
+export interface AgendaPrefs {
+  collapsedSections?: Record<ID, boolean>;
+  columnWidths?: PreferencesV2['columnWidths'];
+}
+
+export interface StoredAgenda {
+  state: PersistedState;
+  prefs?: AgendaPrefs;
+}
+
+// Load the library index. On first load, moves the legacy single-agenda document
+// (STORAGE_KEY) and its view prefs into the library as "My agenda".
+export function loadLibrary(): AgendaLibrary {
+  try {
+    const raw = localStorage.getItem(LIBRARY_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (parsed && parsed.version === 1 && Array.isArray(parsed.agendas)) return parsed as AgendaLibrary;
+    }
+  } catch (err) {
+    console.warn('Failed to load agenda library', err);
+  }
+  return migrateLegacyState();
+}
+
+function migrateLegacyState(): AgendaLibrary {
+  const library: AgendaLibrary = { version: 1, activeId: '', agendas: [] };
+  const legacy = loadState();
+  if (legacy) {
+    const id = Math.random().toString(36).slice(2, 9);
+    const prefs = loadPrefs();
+    const now = Date.now();
+    saveAgenda(id, { state: legacy, prefs: { collapsedSections: prefs?.collapsedSections, columnWidths: prefs?.columnWidths } });
+    // saveAgenda also returns false for unchanged content, so check the stored copy itself.
+    // The legacy document is only removed once the agenda and the index are both stored.
+    if (!loadAgenda(id)) {
+      console.warn('Failed to move the saved agenda into the library; keeping the old copy');
+      return library;
+    }
+    const next: AgendaLibrary = { ...library, activeId: id, agendas: [{ id, name: 'My agenda', createdAt: now, updatedAt: now }] };
+    if (!saveLibrary(next)) {
+      deleteAgenda(id);
+      return library;
+    }
+    clearState();
+    return next;
+  }
+  return library;
+}
+
+// Save the library index. Returns false if it could not be written.
+export function saveLibrary(library: AgendaLibrary): boolean {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+    return true;
+  } catch (err) {
+    console.warn('Failed to save agenda library', err);
+    return false;
+  }
+}
+
+export function loadAgenda(id: ID): StoredAgenda | null {
+  try {
+    const raw = localStorage.getItem(agendaKey(id));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (parsed && parsed.state && (parsed.state.version === 1 || parsed.state.version === 2)) return parsed as StoredAgenda;
+    return null;
+  } catch (err) {
+    console.warn('Failed to load agenda', err);
+    return null;
+  }
+}
+
+// Save an agenda document. Returns true if the stored content changed.
+export function saveAgenda(id: ID, doc: StoredAgenda): boolean {
+  try {
+    const next = JSON.stringify(doc);
+    if (localStorage.getItem(agendaKey(id)) === next) return false;
+    localStorage.setItem(agendaKey(id), next);
+    return true;
+  } catch (err) {
+    console.warn('Failed to save agenda', err);
+    return false;
+  }
+}
+
+// Add an agenda document to the library and make it the active one (used outside the main app, e.g. shared links)
+export function addAgendaToLibrary(name: string, doc: StoredAgenda): ID {
+  const library = loadLibrary();
+  const id = Math.random().toString(36).slice(2, 9);
+  const now = Date.now();
+  saveAgenda(id, doc);
+  saveLibrary({ ...library, activeId: id, agendas: [...library.agendas, { id, name, createdAt: now, updatedAt: now }] });
+  return id;
+}
+
+export function deleteAgenda(id: ID) {
+  try {
+    localStorage.removeItem(agendaKey(id));
+    localStorage.removeItem(historyKey(id));
+  } catch {}
+}
+
+// Undo/redo history, stored per agenda so it survives a page reload
+const historyKey = (id: ID) => `agenda-mover/history/${id}`;
+
+export interface HistorySnapshot {
+  sections: Section[];
+  activities: Activity[];
+  config: DayConfig;
+  people?: Person[]; // absent in history saved before the people list existed
+  collapsedSections: Record<ID, boolean>;
+  hideCompleted: boolean;
+  columnWidths: ColumnWidths;
+}
+
+export interface HistoryEntry {
+  label: string; // e.g. "Moved 'Keynote' to Day 1: Afternoon"
+  at: number; // epoch ms
+  snapshot: HistorySnapshot; // state on the other side of this change (before it while in past, after it while in future)
+}
+
+export interface AgendaHistory {
+  past: HistoryEntry[]; // oldest first; the last entry is the next undo
+  future: HistoryEntry[]; // the last entry is the next redo
+}
+
+export function loadHistory(id: ID): AgendaHistory {
+  try {
+    const raw = localStorage.getItem(historyKey(id));
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (parsed && parsed.version === 1 && Array.isArray(parsed.past) && Array.isArray(parsed.future)) {
+        return { past: parsed.past, future: parsed.future };
+      }
+    }
+  } catch (err) {
+    console.warn('Failed to load history', err);
+  }
+  return { past: [], future: [] };
+}
+
+// Each entry holds a full snapshot, so stored history is capped by size as well as count
+const MAX_HISTORY_CHARS = 1_500_000;
+
+// Save history, dropping the oldest entries (then the furthest redo steps) while it is over the
+// size cap or the storage quota, so the most recent steps are always kept
+export function saveHistory(id: ID, history: AgendaHistory) {
+  let { past, future } = history;
+  for (;;) {
+    const json = JSON.stringify({ version: 1, past, future });
+    if (json.length <= MAX_HISTORY_CHARS || (!past.length && !future.length)) {
+      try {
+        localStorage.setItem(historyKey(id), json);
+        return;
+      } catch (err) {
+        // Over quota: free the previously saved copy before retrying with fewer entries
+        localStorage.removeItem(historyKey(id));
+        if (!past.length && !future.length) {
+          console.warn('Failed to save history', err);
+          return;
+        }
+      }
+    }
+    // Drop a quarter of the remaining entries (at least one) and try again
+    const drop = Math.max(1, Math.ceil((past.length + future.length) / 4));
+    const fromPast = Math.min(drop, past.length);
+    past = past.slice(fromPast);
+    future = future.slice(drop - fromPast);
+  }
+}
+
 // Preferences persistence (e.g., auto-apply setting)
 export interface PreferencesV2 {
   version: 2;
   autoApplyOnceOnLoad?: boolean;
   hideCompleted?: boolean;
+  timeFormat?: TimeFormat; // 12h/24h and locale for displayed times
+  // Legacy: collapsedSections and columnWidths are now stored per agenda (AgendaPrefs)
   collapsedSections?: Record<ID, boolean>;
   columnWidths?: {
     activity: number; owner: number; slide: number; duration: number;
@@ -63,6 +263,8 @@ export interface PreferencesV2 {
   };
 }
 
+export type ColumnWidths = NonNullable<PreferencesV2['columnWidths']>;
+
 export function savePrefs(prefs: PreferencesV2) {
   try {
     localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
@@ -83,18 +285,28 @@ export function loadPrefs(): PreferencesV2 | null {
 
 // CSV helpers: Export activities table and sections mapping.
 // Note: CSV does not carry computed injections; it captures activities and config minimally.
-export function exportActivitiesToCSV(activities: Activity[], sections: Section[]): string {
-  const sectionNameById = new Map(sections.map((s) => [s.id, s.name] as const));
-  const header = ['Section','Title','Owner','SlideNumber','DurationMin','Files','Details','Notes'];
+// Day and Date columns carry each section's day number and calendar date (empty without a start date).
+// OwnerRole/OwnerEmail carry the people registry, one semicolon-separated entry per co-owner.
+// Files stay one comma-separated column; named files are written as "Name <path>".
+export function exportActivitiesToCSV(activities: Activity[], sections: Section[], config?: DayConfig, people: Person[] = []): string {
+  const sectionById = new Map(sections.map((s) => [s.id, s] as const));
+  const header = ['Section','Day','Date','Title','Owner','OwnerRole','OwnerEmail','SlideNumber','DurationMin','Files','Details','Notes'];
   const lines = [header.join(',')];
   for (const a of activities) {
+    const section = sectionById.get(a.sectionId);
+    const day = section?.dayNumber ?? 1;
+    const owners = splitOwners(a.owner, people).map((name) => findPerson(people, name));
     const row = [
-      escapeCsv(sectionNameById.get(a.sectionId) ?? ''),
+      escapeCsv(section?.name ?? ''),
+      String(day),
+      config ? dateForDay(config, day) ?? '' : '',
       escapeCsv(a.title),
       escapeCsv(a.owner),
+      escapeCsv(owners.some((p) => p?.role) ? owners.map((p) => p?.role ?? '').join('; ') : ''),
+      escapeCsv(owners.some((p) => p?.email) ? owners.map((p) => p?.email ?? '').join('; ') : ''),
       escapeCsv(a.slideNumber ?? ''),
       String(a.durationMin),
-      escapeCsv(a.files ?? ''),
+      escapeCsv(formatAttachmentList(activityAttachments(a))),
       escapeCsv(a.details ?? ''),
       escapeCsv(a.notes ?? ''),
     ];
@@ -104,79 +316,11 @@ export function exportActivitiesToCSV(activities: Activity[], sections: Section[
 }
 
 function escapeCsv(val: string): string {
-  const needsQuotes = /[",\n]/.test(val);
+  const needsQuotes = /[",;\r\n\t]/.test(val);
   let v = val.replace(/"/g, '""');
   return needsQuotes ? `"${v}"` : v;
 }
 
-export interface CsvImportResult {
-  sections: Section[];
-  activities: Activity[];
-}
-
-// Import activities and sections from CSV. Unknown sections will be created.
-export function importActivitiesFromCSV(text: string): CsvImportResult {
-  const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
-  if (lines.length <= 1) return { sections: [], activities: [] };
-  const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
-  const idx = {
-    section: header.indexOf('section'),
-    title: header.indexOf('title'),
-    owner: header.indexOf('owner'),
-    slide: header.indexOf('slidenumber'),
-    duration: header.indexOf('durationmin'),
-    files: header.indexOf('files'),
-    details: header.indexOf('details'),
-    notes: header.indexOf('notes'),
-  };
-  const sectionsMap = new Map<string, Section>();
-  const makeId = () => Math.random().toString(36).slice(2, 9);
-  const activities: Activity[] = [];
-  let orderCounter = 1;
-
-  for (let i = 1; i < lines.length; i++) {
-    const cols = parseCsvLine(lines[i]);
-    const secName = (cols[idx.section] ?? '').trim() || 'Imported';
-    if (!sectionsMap.has(secName)) {
-      sectionsMap.set(secName, { id: makeId(), name: secName, order: orderCounter++ });
-    }
-    const sectionId = sectionsMap.get(secName)!.id;
-    activities.push({
-      id: makeId(),
-      title: (cols[idx.title] ?? '').trim(),
-      owner: (cols[idx.owner] ?? '').trim(),
-      slideNumber: (cols[idx.slide] ?? '').trim() || undefined,
-      durationMin: Number((cols[idx.duration] ?? '0').trim()) || 0,
-      files: (cols[idx.files] ?? '').trim() || undefined,
-      details: (cols[idx.details] ?? '').trim() || undefined,
-      notes: (cols[idx.notes] ?? '').trim() || undefined,
-      sectionId,
-    });
-  }
-
-  return { sections: Array.from(sectionsMap.values()), activities };
-}
-
-function parseCsvLine(line: string): string[] {
-  const result: string[] = [];
-  let cur = '';
-  let inQuotes = false;
-  for (let i = 0; i < line.length; i++) {
-    const ch = line[i];
-    if (inQuotes) {
-      if (ch === '"' && line[i + 1] === '"') { cur += '"'; i++; continue; }
-      if (ch === '"') { inQuotes = false; continue; }
-      cur += ch;
-    } else {
-      if (ch === '"') { inQuotes = true; continue; }
-      if (ch === ',') { result.push(cur); cur = ''; continue; }
-      cur += ch;
-    }
-  }
-  result.push(cur);
-  return result;
-}
-
 // Trigger a JSON file download for the given state object
 export function downloadJson(filename: string, data: unknown) {
   const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
@@ -188,6 +332,17 @@ export function downloadJson(filename: string, data: unknown) {
   setTimeout(() => URL.revokeObjectURL(url), 5000);
 }
 
+// Trigger a text file download (CSV, ICS, ...)
+export function downloadText(filename: string, text: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 5000);
+}
+
 // Read file contents as text (used for JSON import)
 export function readFileAsText(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
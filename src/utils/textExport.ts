@@ -0,0 +1,161 @@
+// Markdown and plain-text export of the computed schedule (the rows PrintView renders),
+// grouped by day and section, for pasting into emails and chat.
+
+import { Attachment, ComputedRow, Section } from '../models';
+import { formatMinWithOffset, formatRange } from './time';
+import { formatDate, timeZoneLabel } from './dates';
+import type { ZonedTime } from './dates';
+import { describeBudget } from './budgets';
+import type { BudgetSummary } from './budgets';
+import { activityAttachments, attachmentHref, attachmentLabel, formatAttachmentList } from './attachments';
+import { markdownToPlainText } from './markdown';
+
+export type TextExportFormat = 'markdown' | 'text';
+export type TextExportField = 'owner' | 'slides' | 'duration' | 'details' | 'notes' | 'files';
+
+export const TEXT_EXPORT_FIELDS: { field: TextExportField; label: string }[] = [
+  { field: 'owner', label: 'Owner' },
+  { field: 'slides', label: 'Slides' },
+  { field: 'duration', label: 'Duration' },
+  { field: 'details', label: 'Details' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'files', label: 'Files' },
+];
+
+export interface TextExportOptions {
+  format: TextExportFormat;
+  fields: TextExportField[];
+  includeBreaks?: boolean; // include Break/Lunch rows
+  title?: string;
+  dayDate?: (dayNumber: number) => string | null; // calendar date (YYYY-MM-DD) for a day, if known
+  displayZones?: string[]; // extra timezones to show each row's time in
+  convertTime?: ((dayNumber: number, min: number) => ZonedTime[]) | null;
+  budgets?: BudgetSummary; // adds planned vs. budget to day and section headings that have a budget
+}
+
+interface Line {
+  time: string;
+  zoneTimes: string[]; // time range in each display timezone
+  title: string;
+  owner?: string;
+  slides?: string;
+  duration?: string;
+  details?: string;
+  notes?: string;
+  files?: string;
+}
+
+export function exportScheduleToText(rows: ComputedRow[], sections: Section[], options: TextExportOptions): string {
+  const ordered = sections.slice().sort((a, b) => a.order - b.order);
+  const days = Array.from(new Set(ordered.map((s) => s.dayNumber ?? 1))).sort((a, b) => a - b);
+  const showDays = days.length > 1 || days.some((d) => options.dayDate?.(d));
+  const md = options.format === 'markdown';
+  const out: string[] = [md ? `# ${options.title ?? 'Agenda'}` : (options.title ?? 'Agenda').toUpperCase()];
+
+  for (const day of days) {
+    if (showDays) {
+      const date = options.dayDate?.(day);
+      const heading = `Day ${day}${date ? ` — ${formatDate(date)}` : ''}`;
+      out.push('', md ? `## ${heading}` : heading);
+    }
+    const dayBudget = options.budgets?.days[day];
+    if (dayBudget?.budgetMin != null) out.push(...(md ? ['', `Budget: ${describeBudget(dayBudget)}`] : [`Budget: ${describeBudget(dayBudget)}`]));
+    for (const section of ordered.filter((s) => (s.dayNumber ?? 1) === day)) {
+      const lines = rows
+        .filter((r) => r.sectionId === section.id)
+        .map((r) => toLine(r, options, day))
+        .filter((l): l is Line => !!l);
+      if (!lines.length) continue;
+      const budget = options.budgets?.sections[section.id];
+      const name = budget?.budgetMin != null ? `${section.name} (${describeBudget(budget)})` : section.name;
+      out.push('', md ? `${showDays ? '###' : '##'} ${name}` : `${showDays ? '  ' : ''}${name}`);
+      const zones = options.convertTime ? (options.displayZones ?? []).map(timeZoneLabel) : [];
+      if (md) out.push('', ...markdownTable(lines, options.fields, zones));
+      else out.push(...textOutline(lines, options.fields, zones, showDays ? '    ' : '  '));
+    }
+  }
+  return out.join('\n') + '\n';
+}
+
+function toLine(row: ComputedRow, options: TextExportOptions, dayNumber: number): Line | null {
+  const time = formatRange(row.startMin, row.endMin);
+  const starts = options.convertTime?.(dayNumber, row.startMin) ?? [];
+  const ends = options.convertTime?.(dayNumber, row.endMin) ?? [];
+  const zoneTimes = starts.map((s, i) => `${formatMinWithOffset(s.min, s.dayOffset)}–${formatMinWithOffset(ends[i].min, ends[i].dayOffset)}`);
+  if (row.type === 'activity') {
+    const a = row.activity;
+    if (a.isSystem && !options.includeBreaks) return null;
+    if (a.isSystem) return { time, zoneTimes, title: a.title };
+    return {
+      time,
+      zoneTimes,
+      title: a.title,
+      owner: a.owner || undefined,
+      slides: a.slideNumber || undefined,
+      duration: `${a.durationMin} min`,
+      details: formatNotes(a.details, options.format),
+      notes: formatNotes(a.notes, options.format),
+      files: formatFiles(activityAttachments(a), options.format) || undefined,
+    };
+  }
+  if (row.type === 'break' || row.type === 'lunch') return options.includeBreaks ? { time, zoneTimes, title: row.label } : null;
+  // Overflow/gap/conflict rows are planning hints, not agenda items
+  return null;
+}
+
+// Details/notes are Markdown already. Table cells cannot hold lists or headings, so those become
+// "•" lines and bold text there; the plain-text outline gets the text without markup.
+function formatNotes(text: string | undefined, format: TextExportFormat): string | undefined {
+  if (!text?.trim()) return undefined;
+  if (format === 'text') return markdownToPlainText(text);
+  return text
+    .trim()
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*[-*+]\s+/, '• ').replace(/^#{1,3}\s+(.*)$/, '**$1**'))
+    .join('\n');
+}
+
+// Markdown links for web addresses; plain text uses the CSV "Name <path>" form
+function formatFiles(files: Attachment[], format: TextExportFormat): string {
+  if (format === 'text') return formatAttachmentList(files);
+  return files
+    .filter((f) => f.path.trim())
+    .map((f) => {
+      const href = attachmentHref(f.path);
+      return href ? `[${attachmentLabel(f)}](${href.replace(/[()\s]/g, encodeURIComponent)})` : f.path.trim();
+    })
+    .join(', ');
+}
+
+function markdownTable(lines: Line[], fields: TextExportField[], zones: string[]): string[] {
+  const cols = TEXT_EXPORT_FIELDS.filter((f) => fields.includes(f.field));
+  const cell = (s?: string) => (s ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  return [
+    `| Time |${zones.map((z) => ` ${cell(z)} |`).join('')} Item |${cols.map((c) => ` ${c.label} |`).join('')}`,
+    `| --- |${zones.map(() => ' --- |').join('')} --- |${cols.map(() => ' --- |').join('')}`,
+    ...lines.map((l) => `| ${cell(l.time)} |${l.zoneTimes.map((z) => ` ${cell(z)} |`).join('')} ${cell(l.title)} |${cols.map((c) => ` ${cell(l[c.field])} |`).join('')}`),
+  ];
+}
+
+// "9:00–9:20 AM Welcome + Introductions (Host) [Slides 1-4] · 20 min", with longer text on indented lines
+function textOutline(lines: Line[], fields: TextExportField[], zones: string[], indent: string): string[] {
+  const out: string[] = [];
+  const has = (f: TextExportField) => fields.includes(f);
+  for (const l of lines) {
+    const converted = l.zoneTimes.map((z, i) => ` / ${z} ${zones[i]}`).join('');
+    let head = `${indent}${l.time}${converted} ${l.title}`;
+    if (has('owner') && l.owner) head += ` (${l.owner})`;
+    if (has('slides') && l.slides) head += ` [Slides ${l.slides}]`;
+    if (has('duration') && l.duration) head += ` · ${l.duration}`;
+    out.push(head);
+    const extra = [
+      has('details') ? l.details : undefined,
+      has('notes') && l.notes ? `Notes: ${l.notes}` : undefined,
+      has('files') && l.files ? `Files: ${l.files}` : undefined,
+    ];
+    for (const text of extra) {
+      if (text) out.push(...text.split(/\r?\n/).map((t) => (t.trim() ? `${indent}    ${t}` : '')));
+    }
+  }
+  return out;
+}
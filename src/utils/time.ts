@@ -12,11 +12,57 @@ export function parseTimeToMin(value: string): number | null {
   return h * 60 + m;
 }
 
-// Format minutes from midnight to a human-friendly time like "8:30 AM"
+// Display preference for times: 12-hour, 24-hour, or whatever the locale uses.
+// A locale (e.g. "de-DE") switches to Intl formatting for that locale.
+export type ClockStyle = '12h' | '24h' | 'locale';
+export interface TimeFormat {
+  clock: ClockStyle;
+  locale?: string;
+}
+export const DEFAULT_TIME_FORMAT: TimeFormat = { clock: '12h' };
+
+// The format every formatMin call uses; set from the user's preferences before rendering
+let timeFormat: TimeFormat = DEFAULT_TIME_FORMAT;
+let intlFormatter: Intl.DateTimeFormat | null = null;
+
+export function setTimeFormat(next: TimeFormat | undefined) {
+  timeFormat = next ?? DEFAULT_TIME_FORMAT;
+  intlFormatter = null;
+  if (timeFormat.clock !== 'locale' && !timeFormat.locale) return;
+  try {
+    intlFormatter = new Intl.DateTimeFormat(timeFormat.locale || undefined, {
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: 'UTC',
+      ...(timeFormat.clock === 'locale' ? {} : { hourCycle: timeFormat.clock === '12h' ? 'h12' : 'h23' }),
+    });
+  } catch {
+    // Unknown locale tag: fall back to the built-in 12h/24h formatting
+    intlFormatter = null;
+  }
+}
+
+export function getTimeFormat(): TimeFormat {
+  return timeFormat;
+}
+
+// True when the locale tag is one Intl understands (e.g. "en-GB", "de")
+export function isValidLocale(tag: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf([tag]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// Format minutes from midnight to a human-friendly time like "8:30 AM" (or "08:30", or the
+// locale's style, depending on the time format preference)
 export function formatMin(min: number): string {
   let m = Math.max(0, min);
   const h24 = Math.floor(m / 60) % 24;
   const minutes = m % 60;
+  if (intlFormatter) return intlFormatter.format(new Date(Date.UTC(2000, 0, 1, h24, minutes)));
+  if (timeFormat.clock === '24h') return formatMin24(m);
   const am = h24 < 12;
   const h12 = h24 % 12 === 0 ? 12 : h24 % 12;
   return `${h12}:${minutes.toString().padStart(2, '0')} ${am ? 'AM' : 'PM'}`;
@@ -33,3 +79,51 @@ export function formatMin24(min: number): string {
   const minutes = min % 60;
   return `${h24.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
 }
+
+// Minutes from midnight (local time) for an epoch-ms timestamp
+export function minOfDay(ts: number): number {
+  const d = new Date(ts);
+  return d.getHours() * 60 + d.getMinutes();
+}
+
+// Format a drift in minutes as "+5 min" / "-3 min" / "on time"
+export function formatDrift(min: number): string {
+  if (min === 0) return 'on time';
+  return `${min > 0 ? '+' : '-'}${Math.abs(min)} min`;
+}
+
+// Format a time range compactly, sharing the AM/PM suffix when both ends have it: "9:00–9:20 AM"
+export function formatRange(startMin: number, endMin: number): string {
+  const start = formatMin(startMin);
+  const end = formatMin(endMin);
+  const suffix = /\s\D+$/.exec(start)?.[0];
+  if (suffix && end.endsWith(suffix)) return `${start.slice(0, -suffix.length)}–${end}`;
+  return `${start}–${end}`;
+}
+
+// Format a duration as "45 min", "2h" or "2h 40m"
+export function formatDuration(min: number): string {
+  if (min < 60) return `${min} min`;
+  const h = Math.floor(min / 60);
+  const m = min % 60;
+  return m ? `${h}h ${m}m` : `${h}h`;
+}
+
+// Parse a duration typed as "90", "90m", "90 min", "1h30", "1h 30m", "1.5h" or "1:30" into minutes
+export function parseDuration(value: string): number | null {
+  const v = value.trim().toLowerCase();
+  if (!v) return null;
+  let m = /^(\d+):([0-5]?\d)$/.exec(v);
+  if (m) return Number(m[1]) * 60 + Number(m[2]);
+  m = /^(\d+(?:\.\d+)?)\s*(?:m|mins?|minutes?)?$/.exec(v);
+  if (m) return Math.round(Number(m[1]));
+  m = /^(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)\s*(?:(\d+)\s*(?:m|mins?|minutes?)?)?$/.exec(v);
+  if (m) return Math.round(Number(m[1]) * 60 + Number(m[2] ?? 0));
+  return null;
+}
+
+// Format a converted time with its day rollover, e.g. "2:00 AM +1d" or "11:00 PM -1d"
+export function formatMinWithOffset(min: number, dayOffset: number): string {
+  if (!dayOffset) return formatMin(min);
+  return `${formatMin(min)} ${dayOffset > 0 ? '+' : ''}${dayOffset}d`;
+}
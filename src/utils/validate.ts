@@ -0,0 +1,349 @@
+// Import validation and migration for PersistedState files.
+// Files are first migrated step by step to the current version (v1 → v2 → ...), then every
+// section, activity and config field is checked. Problems are repaired where a safe default
+// exists; anything else rejects the file. All findings are returned as a per-item report.
+
+import { Activity, DayConfig, ID, Injection, Person, Section } from '../models';
+import { PersistedState } from './storage';
+import { isValidTimeZone } from './dates';
+
+export const CURRENT_VERSION = 2;
+
+export interface ImportIssue {
+  severity: 'error' | 'repaired' | 'warning'; // error = cannot import
+  item: string; // e.g. 'Activity 3 "Keynote"'
+  message: string;
+}
+
+export interface ImportReport {
+  state: PersistedState | null; // null when the file was rejected
+  fromVersion: number | null;
+  issues: ImportIssue[];
+}
+
+type Doc = Record<string, unknown>;
+
+// Each migration upgrades a document from version N to N + 1
+const MIGRATIONS: Record<number, (doc: Doc) => Doc> = {
+  1: (doc) => ({ ...doc, version: 2, injections: [] }),
+};
+
+const makeId = () => Math.random().toString(36).slice(2, 9);
+const isObject = (v: unknown): v is Doc => !!v && typeof v === 'object' && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+export function validatePersistedState(input: unknown): ImportReport {
+  const issues: ImportIssue[] = [];
+  let fromVersion: number | null = null;
+  const reject = (item: string, message: string): ImportReport => {
+    issues.push({ severity: 'error', item, message });
+    return { state: null, fromVersion, issues };
+  };
+
+  if (!isObject(input)) return reject('File', 'Not an agenda document (expected a JSON object).');
+  if (!isFiniteNumber(input.version)) return reject('File', 'Missing "version" field.');
+  fromVersion = input.version;
+  if (input.version > CURRENT_VERSION) return reject('File', `Created by a newer version of the app (v${input.version}); this version reads up to v${CURRENT_VERSION}.`);
+  if (input.version < 1 || !Number.isInteger(input.version)) return reject('File', `Unknown version ${input.version}.`);
+
+  let doc: Doc = input;
+  for (let version = input.version; version < CURRENT_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return reject('File', `No migration from v${version}.`);
+    doc = migrate(doc);
+  }
+  if (fromVersion < CURRENT_VERSION) issues.push({ severity: 'warning', item: 'File', message: `Upgraded from v${fromVersion} to v${CURRENT_VERSION}.` });
+
+  if (!Array.isArray(doc.sections)) return reject('Sections', 'Missing "sections" list.');
+  if (!Array.isArray(doc.activities)) return reject('Activities', 'Missing "activities" list.');
+  if (!isObject(doc.config)) return reject('Day configuration', 'Missing "config" object.');
+
+  const config = validateConfig(doc.config, issues);
+  if (!config) return { state: null, fromVersion, issues };
+
+  const sections = validateSections(doc.sections, issues);
+  const activities = validateActivities(doc.activities, sections, issues);
+
+  let injections: Injection[] = [];
+  if (Array.isArray(doc.injections)) injections = doc.injections;
+  else if (doc.injections != null) issues.push({ severity: 'repaired', item: 'File', message: 'Ignored invalid "injections" field.' });
+
+  let people: Person[] = [];
+  if (Array.isArray(doc.people)) people = validatePeople(doc.people, issues);
+  else if (doc.people != null) issues.push({ severity: 'repaired', item: 'File', message: 'Ignored invalid "people" field.' });
+
+  if (issues.some((i) => i.severity === 'error')) return { state: null, fromVersion, issues };
+  return { state: { version: 2, sections, activities, config, injections, people }, fromVersion, issues };
+}
+
+const timeOk = (v: unknown): v is number => isFiniteNumber(v) && v >= 0 && v < 24 * 60;
+const isIsoDate = (v: unknown): v is string => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v);
+
+// Removes optional durations and lunch times that are out of range. Used for the top-level
+// config and for each per-day override, so both follow the same rules.
+function removeInvalidTimes(config: Doc, item: string, issues: ImportIssue[]) {
+  const optionalMinutes = ['breakIntervalMin', 'breakDurationMin', 'lunchDurationMin'];
+  for (const key of optionalMinutes) {
+    const value = config[key];
+    if (value != null && !(isFiniteNumber(value) && value >= 0)) {
+      issues.push({ severity: 'repaired', item, message: `Removed invalid ${key} (${JSON.stringify(value)}).` });
+      delete config[key];
+    }
+  }
+  if (config.lunchTargetMin != null && !timeOk(config.lunchTargetMin)) {
+    issues.push({ severity: 'repaired', item, message: `Removed invalid lunch time (${JSON.stringify(config.lunchTargetMin)}).` });
+    delete config.lunchTargetMin;
+  }
+}
+
+function validateConfig(raw: Doc, issues: ImportIssue[]): DayConfig | null {
+  const item = 'Day configuration';
+  if (!timeOk(raw.dayStartMin) || !timeOk(raw.dayEndMin)) {
+    issues.push({ severity: 'error', item, message: 'Day start/end time is missing or invalid.' });
+    return null;
+  }
+  const config: Doc = { ...raw };
+  if (raw.dayEndMin <= raw.dayStartMin) issues.push({ severity: 'warning', item, message: 'Day ends before it starts.' });
+
+  removeInvalidTimes(config, item, issues);
+  if (config.numberOfDays != null && !(isFiniteNumber(config.numberOfDays) && Number.isInteger(config.numberOfDays) && config.numberOfDays >= 1)) {
+    issues.push({ severity: 'repaired', item, message: `Reset invalid number of days (${JSON.stringify(config.numberOfDays)}) to 1.` });
+    config.numberOfDays = 1;
+  }
+  if (config.startDate != null && !isIsoDate(config.startDate)) {
+    issues.push({ severity: 'repaired', item, message: `Removed invalid start date (${JSON.stringify(config.startDate)}).` });
+    delete config.startDate;
+  }
+  if (config.skipWeekends != null && typeof config.skipWeekends !== 'boolean') {
+    issues.push({ severity: 'repaired', item, message: `Removed invalid skip-weekends setting (${JSON.stringify(config.skipWeekends)}).` });
+    delete config.skipWeekends;
+  }
+  if (config.skippedDates != null) {
+    const dates: unknown[] = Array.isArray(config.skippedDates) ? config.skippedDates : [];
+    const valid = dates.filter(isIsoDate);
+    if (valid.length !== dates.length || !Array.isArray(config.skippedDates)) {
+      issues.push({ severity: 'repaired', item, message: 'Removed invalid skipped dates.' });
+    }
+    config.skippedDates = valid;
+  }
+  if (config.dayOverrides != null && !isObject(config.dayOverrides)) {
+    issues.push({ severity: 'repaired', item, message: 'Removed invalid per-day settings.' });
+    delete config.dayOverrides;
+  } else if (config.dayOverrides != null) {
+    const overrides: Doc = {};
+    for (const [day, value] of Object.entries(config.dayOverrides)) {
+      const dayItem = `${item} (Day ${day})`;
+      if (!/^[1-9]\d*$/.test(day) || !isObject(value)) {
+        issues.push({ severity: 'repaired', item: dayItem, message: 'Removed invalid per-day settings.' });
+        continue;
+      }
+      const override: Doc = { ...value };
+      for (const key of ['dayStartMin', 'dayEndMin']) {
+        if (override[key] != null && !timeOk(override[key])) {
+          issues.push({ severity: 'repaired', item: dayItem, message: `Removed invalid ${key} (${JSON.stringify(override[key])}).` });
+          delete override[key];
+        }
+      }
+      removeInvalidTimes(override, dayItem, issues);
+      overrides[day] = override;
+    }
+    config.dayOverrides = overrides;
+  }
+  if (config.dayBudgets != null && !(isObject(config.dayBudgets) && Object.values(config.dayBudgets).every((v) => isFiniteNumber(v) && v > 0))) {
+    issues.push({ severity: 'repaired', item, message: 'Removed invalid day budgets.' });
+    delete config.dayBudgets;
+  }
+  if (config.timeZone != null && !(typeof config.timeZone === 'string' && isValidTimeZone(config.timeZone))) {
+    issues.push({ severity: 'repaired', item, message: `Removed unknown timezone (${JSON.stringify(config.timeZone)}).` });
+    delete config.timeZone;
+  }
+  if (config.displayTimeZones != null) {
+    const zones: unknown[] = Array.isArray(config.displayTimeZones) ? config.displayTimeZones : [];
+    const valid = zones.filter((z): z is string => typeof z === 'string' && isValidTimeZone(z));
+    if (valid.length !== zones.length || !Array.isArray(config.displayTimeZones)) {
+      issues.push({ severity: 'repaired', item, message: 'Removed unknown display timezones.' });
+    }
+    config.displayTimeZones = valid;
+  }
+  return config as unknown as DayConfig;
+}
+
+function validateSections(raw: unknown[], issues: ImportIssue[]): Section[] {
+  const seen = new Set<ID>();
+  const sections: Section[] = [];
+  let hasParkingLot = false;
+  raw.forEach((s, i) => {
+    const item = `Section ${i + 1}${isObject(s) && typeof s.name === 'string' ? ` "${s.name}"` : ''}`;
+    if (!isObject(s)) {
+      issues.push({ severity: 'repaired', item, message: 'Dropped entry that is not a section.' });
+      return;
+    }
+    const section: Doc = { ...s };
+    let id = typeof section.id === 'string' ? section.id : '';
+    if (!id) {
+      id = makeId();
+      issues.push({ severity: 'repaired', item, message: 'Missing id; generated a new one.' });
+    } else if (seen.has(id)) {
+      id = makeId();
+      issues.push({ severity: 'repaired', item, message: 'Duplicate id; generated a new one.' });
+    }
+    section.id = id;
+    seen.add(id);
+    if (typeof section.name !== 'string') {
+      section.name = `Section ${i + 1}`;
+      issues.push({ severity: 'repaired', item, message: `Missing name; named it "${section.name}".` });
+    }
+    if (!isFiniteNumber(section.order)) {
+      section.order = i + 1;
+      issues.push({ severity: 'repaired', item, message: 'Missing order; placed it by file position.' });
+    }
+    if (section.dayNumber != null && !(isFiniteNumber(section.dayNumber) && Number.isInteger(section.dayNumber) && section.dayNumber >= 1)) {
+      issues.push({ severity: 'repaired', item, message: `Invalid day number (${JSON.stringify(section.dayNumber)}); assigned to Day 1.` });
+      delete section.dayNumber;
+    }
+    if (section.budgetMin != null && !(isFiniteNumber(section.budgetMin) && section.budgetMin > 0)) {
+      issues.push({ severity: 'repaired', item, message: `Removed invalid budget (${JSON.stringify(section.budgetMin)}).` });
+      delete section.budgetMin;
+    }
+    if (section.track != null && typeof section.track !== 'string') {
+      issues.push({ severity: 'repaired', item, message: `Removed invalid track (${JSON.stringify(section.track)}).` });
+      delete section.track;
+    }
+    if (section.parkingLot != null && typeof section.parkingLot !== 'boolean') {
+      issues.push({ severity: 'repaired', item, message: `Removed invalid parking lot flag (${JSON.stringify(section.parkingLot)}).` });
+      delete section.parkingLot;
+    }
+    if (section.parkingLot && hasParkingLot) {
+      issues.push({ severity: 'repaired', item, message: 'Second parking lot; turned it into a regular section.' });
+      delete section.parkingLot;
+    }
+    if (section.parkingLot) hasParkingLot = true;
+    sections.push(section as unknown as Section);
+  });
+  return sections;
+}
+
+function validateActivities(raw: unknown[], sections: Section[], issues: ImportIssue[]): Activity[] {
+  const sectionIds = new Set(sections.map((s) => s.id));
+  const seen = new Set<ID>();
+  const activities: Activity[] = [];
+  let unassigned: Section | null = null;
+
+  raw.forEach((a, i) => {
+    const item = `Activity ${i + 1}${isObject(a) && typeof a.title === 'string' && a.title ? ` "${a.title}"` : ''}`;
+    if (!isObject(a)) {
+      issues.push({ severity: 'repaired', item, message: 'Dropped entry that is not an activity.' });
+      return;
+    }
+    const activity: Doc = { ...a };
+    let id = typeof activity.id === 'string' ? activity.id : '';
+    if (!id) {
+      id = makeId();
+      issues.push({ severity: 'repaired', item, message: 'Missing id; generated a new one.' });
+    } else if (seen.has(id)) {
+      id = makeId();
+      issues.push({ severity: 'repaired', item, message: 'Duplicate id; generated a new one.' });
+    }
+    activity.id = id;
+    seen.add(id);
+
+    if (typeof activity.title !== 'string') {
+      activity.title = '';
+      issues.push({ severity: 'repaired', item, message: 'Missing title; left it empty.' });
+    }
+    if (typeof activity.owner !== 'string') {
+      if (activity.owner != null) issues.push({ severity: 'repaired', item, message: 'Invalid owner; cleared it.' });
+      activity.owner = '';
+    }
+
+    const rawDuration = activity.durationMin;
+    const duration = typeof rawDuration === 'string' ? Number(rawDuration) : rawDuration;
+    if (!isFiniteNumber(duration)) {
+      activity.durationMin = 0;
+      issues.push({ severity: 'repaired', item, message: `Invalid duration (${JSON.stringify(rawDuration) ?? 'missing'}); set to 0 min.` });
+    } else if (duration < 0) {
+      activity.durationMin = 0;
+      issues.push({ severity: 'repaired', item, message: `Negative duration (${duration} min); set to 0 min.` });
+    } else {
+      activity.durationMin = duration;
+    }
+
+    if (typeof activity.sectionId !== 'string' || !sectionIds.has(activity.sectionId)) {
+      if (!unassigned) {
+        unassigned = { id: makeId(), name: 'Unassigned', order: Math.max(0, ...sections.map((s) => s.order)) + 1 };
+        sections.push(unassigned);
+        sectionIds.add(unassigned.id);
+      }
+      issues.push({ severity: 'repaired', item, message: `Unknown section ${JSON.stringify(activity.sectionId ?? null)}; moved to "Unassigned".` });
+      activity.sectionId = unassigned.id;
+    }
+
+    if (activity.priority != null && !(typeof activity.priority === 'string' && ['must', 'should', 'optional'].includes(activity.priority))) {
+      issues.push({ severity: 'repaired', item, message: `Removed unknown priority (${JSON.stringify(activity.priority)}).` });
+      delete activity.priority;
+    }
+    for (const key of ['slideNumber', 'files', 'details', 'notes', 'systemKey', 'parkedFromSectionId']) {
+      if (activity[key] != null && typeof activity[key] !== 'string') {
+        issues.push({ severity: 'repaired', item, message: `Removed invalid ${key}.` });
+        delete activity[key];
+      }
+    }
+    const parkedFrom = sections.find((s) => s.id === activity.parkedFromSectionId);
+    if (activity.parkedFromSectionId != null && (!parkedFrom || parkedFrom.parkingLot)) {
+      issues.push({ severity: 'repaired', item, message: 'Removed unknown parked-from section.' });
+      delete activity.parkedFromSectionId;
+    }
+    if (activity.attachments != null) {
+      if (!Array.isArray(activity.attachments)) {
+        issues.push({ severity: 'repaired', item, message: 'Removed invalid attachments.' });
+        delete activity.attachments;
+      } else {
+        const ids = new Set<ID>();
+        const list: unknown[] = activity.attachments;
+        const files = list.filter((f): f is Doc & { path: string } => isObject(f) && typeof f.path === 'string');
+        if (files.length < list.length) issues.push({ severity: 'repaired', item, message: 'Dropped attachments without a path.' });
+        activity.attachments = files.map((f) => {
+          const id = typeof f.id === 'string' && f.id && !ids.has(f.id) ? f.id : makeId();
+          ids.add(id);
+          return { id, name: typeof f.name === 'string' ? f.name : '', path: f.path };
+        });
+      }
+    }
+    for (const key of ['fixedStartMin', 'actualStartAt', 'actualEndAt', 'minDurationMin', 'maxDurationMin']) {
+      if (activity[key] != null && !isFiniteNumber(activity[key])) {
+        issues.push({ severity: 'repaired', item, message: `Removed invalid ${key}.` });
+        delete activity[key];
+      }
+    }
+    activities.push(activity as unknown as Activity);
+  });
+  return activities;
+}
+
+function validatePeople(raw: unknown[], issues: ImportIssue[]): Person[] {
+  const seen = new Set<ID>();
+  const people: Person[] = [];
+  raw.forEach((p, i) => {
+    const item = `Person ${i + 1}${isObject(p) && typeof p.name === 'string' && p.name ? ` "${p.name}"` : ''}`;
+    if (!isObject(p) || typeof p.name !== 'string' || !p.name.trim()) {
+      issues.push({ severity: 'repaired', item, message: 'Dropped entry without a name.' });
+      return;
+    }
+    const person: Doc = { ...p };
+    let id = typeof person.id === 'string' ? person.id : '';
+    if (!id || seen.has(id)) {
+      id = makeId();
+      issues.push({ severity: 'repaired', item, message: 'Missing or duplicate id; generated a new one.' });
+    }
+    person.id = id;
+    seen.add(id);
+    for (const key of ['role', 'email', 'color']) {
+      if (person[key] != null && typeof person[key] !== 'string') {
+        issues.push({ severity: 'repaired', item, message: `Removed invalid ${key}.` });
+        delete person[key];
+      }
+    }
+    people.push(person as unknown as Person);
+  });
+  return people;
+}